@@ -0,0 +1,66 @@
+-- ============================================================================
+-- Custom Words: Imported Words Not in the Word List
+-- ============================================================================
+-- The word list importer matches rows against the app's word list; rows it
+-- can't match are saved here as the user's own words (ids `custom-<korean>`)
+-- so decks and progress rows can refer to them like any other word.
+--
+-- Run this in your Supabase SQL editor after DECKS_SETUP.sql.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: custom_words
+-- ============================================================================
+CREATE TABLE custom_words (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  word_id TEXT NOT NULL, -- e.g. "custom-노트북", used by deck_words and progress rows
+  korean TEXT NOT NULL,
+  en TEXT NOT NULL,
+  hanja TEXT,
+  classification TEXT,
+  zh TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- A custom word id is unique per user
+CREATE UNIQUE INDEX idx_custom_words_user_word ON custom_words(user_id, word_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE custom_words ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can view their own custom words
+CREATE POLICY "Users can view their own custom words"
+ON custom_words
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own custom words
+CREATE POLICY "Users can insert their own custom words"
+ON custom_words
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own custom words
+CREATE POLICY "Users can update their own custom words"
+ON custom_words
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own custom words
+CREATE POLICY "Users can delete their own custom words"
+ON custom_words
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Most imported words that are missing from the word list:
+-- SELECT korean, COUNT(*) AS users, MIN(en) AS example_meaning
+-- FROM custom_words GROUP BY korean ORDER BY users DESC LIMIT 50;
+-- ============================================================================
@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Custom Decks: User-Created Word Lists
+-- ============================================================================
+-- Users create named decks, add words from Dictionary Mode or the
+-- Learned/To Review tabs, and practice a deck in any mode instead of the
+-- level filters. Like learned_words, deck rows store only word ids; the words
+-- themselves are resolved from the app's word list.
+--
+-- Run this in your Supabase SQL editor after creating the user_stats table.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: decks
+-- ============================================================================
+CREATE TABLE decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Deck names are unique per user
+CREATE UNIQUE INDEX idx_decks_user_name ON decks(user_id, name);
+
+-- ============================================================================
+-- TABLE: deck_words
+-- user_id is repeated here so the policies don't need a join
+-- ============================================================================
+CREATE TABLE deck_words (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deck_id UUID NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  word_id TEXT NOT NULL, -- Word content is resolved from the app's word list
+  position INTEGER NOT NULL DEFAULT 0, -- practice order within the deck
+  added_at TIMESTAMP DEFAULT NOW()
+);
+
+-- A word is in a deck at most once
+CREATE UNIQUE INDEX idx_deck_words_deck_word ON deck_words(deck_id, word_id);
+CREATE INDEX idx_deck_words_user_id ON deck_words(user_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deck_words ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- decks Policies
+-- ============================================================================
+
+-- SELECT: Users can view their own decks
+CREATE POLICY "Users can view their own decks"
+ON decks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own decks
+CREATE POLICY "Users can insert their own decks"
+ON decks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own decks
+CREATE POLICY "Users can update their own decks"
+ON decks
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own decks
+CREATE POLICY "Users can delete their own decks"
+ON decks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- deck_words Policies
+-- ============================================================================
+
+-- SELECT: Users can view words in their own decks
+CREATE POLICY "Users can view their own deck words"
+ON deck_words
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can add words to their own decks only
+CREATE POLICY "Users can insert their own deck words"
+ON deck_words
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM decks WHERE decks.id = deck_id AND decks.user_id = auth.uid())
+);
+
+-- UPDATE: Users can update their own deck words (e.g. reorder)
+CREATE POLICY "Users can update their own deck words"
+ON deck_words
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can remove words from their own decks
+CREATE POLICY "Users can delete their own deck words"
+ON deck_words
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Decks with their word counts:
+-- SELECT d.user_id, d.name, COUNT(w.id) AS words
+-- FROM decks d LEFT JOIN deck_words w ON w.deck_id = d.id
+-- GROUP BY d.id ORDER BY d.user_id, d.name;
+-- ============================================================================
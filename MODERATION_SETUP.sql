@@ -0,0 +1,118 @@
+-- ============================================================================
+-- Meaning Moderation: Admins and Approved Corrections
+-- ============================================================================
+-- Reports from the debug button land in reported_meanings with status
+-- 'pending'. Admins review them on the /admin page, where they can approve
+-- (as reported or edited), or reject them. Approved corrections are stored in
+-- meaning_corrections and applied on top of the bundled dataset when the app
+-- loads (applyMeaningCorrections() in data/words.ts), so no JSON edit or
+-- redeploy is needed.
+--
+-- Run this in your Supabase SQL editor after REPORTED_MEANINGS.sql, then run
+-- REPORT_FIELDS_MIGRATION.sql (reports on hanja/class/Chinese, "My reports").
+-- Then make someone an admin:
+--   INSERT INTO admins (user_id) VALUES ('user-uuid-here');
+-- ============================================================================
+
+CREATE TABLE admins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Used by the policies below. SECURITY DEFINER so it can read admins
+-- regardless of the caller's own policies.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid());
+$$;
+
+-- One approved meaning per word; replaces the dataset's `en` in the app
+CREATE TABLE meaning_corrections (
+  word_id TEXT PRIMARY KEY,
+  korean TEXT NOT NULL,
+  en TEXT NOT NULL,
+  previous_meaning TEXT, -- the dataset meaning it replaces
+  report_count INTEGER NOT NULL DEFAULT 0, -- reports approved with it
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- reported_meanings.status as used by the moderation queue:
+--   'pending'  -> waiting in the queue
+--   'reviewed' -> old manual workflow ("approved, not applied yet"); also queued
+--   'applied'  -> approved and applied through meaning_corrections
+--   'rejected' -> dismissed
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meaning_corrections ENABLE ROW LEVEL SECURITY;
+
+-- admins: users can check whether they are an admin; the list itself is
+-- managed in the SQL editor
+CREATE POLICY "Users can view their own admin row"
+ON admins
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- meaning_corrections: everyone (signed in or not) loads the corrections
+CREATE POLICY "Anyone can view meaning corrections"
+ON meaning_corrections
+FOR SELECT
+USING (true);
+
+-- INSERT: Admins only
+CREATE POLICY "Admins can insert meaning corrections"
+ON meaning_corrections
+FOR INSERT
+WITH CHECK (is_admin());
+
+-- UPDATE: Admins only
+CREATE POLICY "Admins can update meaning corrections"
+ON meaning_corrections
+FOR UPDATE
+USING (is_admin())
+WITH CHECK (is_admin());
+
+-- DELETE: Admins only (reverts the word to the dataset meaning)
+CREATE POLICY "Admins can delete meaning corrections"
+ON meaning_corrections
+FOR DELETE
+USING (is_admin());
+
+-- reported_meanings: admins see and moderate every user's reports
+-- (the per-user policies from REPORTED_MEANINGS.sql still apply)
+CREATE POLICY "Admins can view all reports"
+ON reported_meanings
+FOR SELECT
+USING (is_admin());
+
+CREATE POLICY "Admins can update all reports"
+ON reported_meanings
+FOR UPDATE
+USING (is_admin())
+WITH CHECK (is_admin());
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Pending reports per word, most reported first:
+-- SELECT word_id, korean, COUNT(*) AS reports
+-- FROM reported_meanings
+-- WHERE status IN ('pending', 'reviewed')
+-- GROUP BY word_id, korean
+-- ORDER BY reports DESC;
+--
+-- Active corrections:
+-- SELECT word_id, korean, previous_meaning, en, report_count, updated_at
+-- FROM meaning_corrections
+-- ORDER BY updated_at DESC;
+-- ============================================================================
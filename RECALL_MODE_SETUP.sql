@@ -10,8 +10,7 @@
 CREATE TABLE learned_words (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-  word_id TEXT NOT NULL,
-  word_data JSONB NOT NULL, -- Full word metadata (korean, en, zh, etc)
+  word_id TEXT NOT NULL, -- Word content is resolved from the app's word list
   learned_at TIMESTAMP DEFAULT NOW(),
   created_at TIMESTAMP DEFAULT NOW()
 );
@@ -27,13 +26,16 @@ CREATE INDEX idx_learned_words_user_id ON learned_words(user_id);
 CREATE TABLE review_words (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-  word_id TEXT NOT NULL,
-  word_data JSONB NOT NULL, -- Full word metadata (korean, en, zh, etc)
+  word_id TEXT NOT NULL, -- Word content is resolved from the app's word list
   failed_count INTEGER DEFAULT 1,
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- One row per user and word (upserts use ON CONFLICT (user_id, word_id));
+-- on existing databases, remove duplicate rows before creating it
+CREATE UNIQUE INDEX idx_review_words_user_word ON review_words(user_id, word_id);
+
 -- Index for queries
 CREATE INDEX idx_review_words_user_id ON review_words(user_id);
 
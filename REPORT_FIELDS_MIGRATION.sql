@@ -0,0 +1,48 @@
+-- ============================================================================
+-- Reports on Other Word Fields + "My reports"
+-- ============================================================================
+-- Reports could only be about a word's English meaning. This lets users
+-- report the hanja, class or Chinese too, and lets them edit or withdraw
+-- their own reports while pending (the "My reports" view).
+--
+-- Run this in your Supabase SQL editor on databases set up before it, after
+-- REPORTED_MEANINGS.sql and MODERATION_SETUP.sql. New setups can run it
+-- right after those two.
+-- ============================================================================
+
+-- Step 1: which field a report is about. current_meaning / corrected_meaning
+-- hold that field's value. Existing reports are all about the meaning.
+ALTER TABLE reported_meanings
+  ADD COLUMN IF NOT EXISTS field TEXT NOT NULL DEFAULT 'en'
+  CHECK (field IN ('en', 'hanja', 'classification', 'zh'));
+
+-- Approved reports were marked 'approved' by the first moderation queue
+UPDATE reported_meanings SET status = 'applied' WHERE status = 'approved';
+
+-- Step 2: corrections for the other fields (null = keep the dataset value)
+ALTER TABLE meaning_corrections ALTER COLUMN en DROP NOT NULL;
+ALTER TABLE meaning_corrections ADD COLUMN IF NOT EXISTS hanja TEXT;
+ALTER TABLE meaning_corrections ADD COLUMN IF NOT EXISTS classification TEXT;
+ALTER TABLE meaning_corrections ADD COLUMN IF NOT EXISTS zh TEXT;
+
+-- Step 3: users may only edit or withdraw reports that are still pending
+-- (previously they could update any of their reports, status included)
+DROP POLICY IF EXISTS update_own_reports ON reported_meanings;
+DROP POLICY IF EXISTS delete_own_reports ON reported_meanings;
+
+CREATE POLICY update_own_pending_reports ON reported_meanings
+  FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY delete_own_pending_reports ON reported_meanings
+  FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Reports per field and status:
+-- SELECT field, status, COUNT(*) FROM reported_meanings
+-- GROUP BY field, status ORDER BY field, status;
+-- ============================================================================
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Schema Health: what the admin health page checks
+-- ============================================================================
+-- /admin/health compares the database with what the setup files create
+-- (EXPECTED_SCHEMA in lib/schema.ts): missing tables, row level security,
+-- the unique indexes upserts rely on, and RLS policies. The API can't read
+-- the system catalogs, so this function returns them, for admins only.
+--
+-- Run this in your Supabase SQL editor after MODERATION_SETUP.sql (it uses
+-- is_admin()). Without it the health page only checks which tables exist.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION schema_health()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'schema_health() is only available to admins' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tables', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('name', c.relname, 'rls', c.relrowsecurity)), '[]'::jsonb)
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = 'public' AND c.relkind = 'r'
+    ),
+    -- Includes primary keys and UNIQUE constraints (both are unique indexes)
+    'unique_indexes', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', t.relname,
+        'name', i.relname,
+        'columns', (
+          SELECT jsonb_agg(a.attname ORDER BY k.ord)
+          FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+        )
+      )), '[]'::jsonb)
+      FROM pg_index ix
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE n.nspname = 'public' AND ix.indisunique
+    ),
+    'policies', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('table', tablename, 'name', policyname, 'command', cmd)), '[]'::jsonb)
+      FROM pg_policies
+      WHERE schemaname = 'public'
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION schema_health() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION schema_health() TO authenticated;
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Policies per table (what the "missing policy" checks compare against):
+-- SELECT tablename, policyname, cmd FROM pg_policies
+-- WHERE schemaname = 'public' ORDER BY tablename, policyname;
+--
+-- Tables without row level security:
+-- SELECT c.relname FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+-- WHERE n.nspname = 'public' AND c.relkind = 'r' AND NOT c.relrowsecurity;
+-- ============================================================================
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Timed Sprints: Per-Run Results
+-- ============================================================================
+-- Stores one row per finished 60 s / 120 s / 5 min sprint in Copy or Recall
+-- Mode. Personal bests per mode, duration and level are computed from these
+-- rows by fetchSprintBests() in lib/supabase.ts.
+--
+-- Run this in your Supabase SQL editor after creating the user_stats table.
+-- ============================================================================
+
+CREATE TABLE sprint_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL CHECK (mode IN ('copy', 'recall')),
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds IN (60, 120, 300)),
+  level INTEGER NOT NULL DEFAULT 1,
+  words_completed INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  accuracy INTEGER NOT NULL DEFAULT 0, -- 0–100
+  best_streak INTEGER NOT NULL DEFAULT 0,
+  strokes_per_minute INTEGER NOT NULL DEFAULT 0, -- 타수 over the whole run
+  missed_word_ids TEXT[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_sprint_runs_user_best
+  ON sprint_runs(user_id, mode, duration_seconds, level, words_completed DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE sprint_runs ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can view their own runs
+CREATE POLICY "Users can view their own sprint runs"
+ON sprint_runs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own runs
+CREATE POLICY "Users can insert their own sprint runs"
+ON sprint_runs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own runs
+CREATE POLICY "Users can update their own sprint runs"
+ON sprint_runs
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own runs
+CREATE POLICY "Users can delete their own sprint runs"
+ON sprint_runs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Personal bests per mode, duration and level:
+-- SELECT DISTINCT ON (user_id, mode, duration_seconds, level)
+--        user_id, mode, duration_seconds, level, words_completed, accuracy
+-- FROM sprint_runs
+-- ORDER BY user_id, mode, duration_seconds, level,
+--          words_completed DESC, accuracy DESC;
+-- ============================================================================
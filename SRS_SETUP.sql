@@ -0,0 +1,95 @@
+-- ============================================================================
+-- Spaced Repetition: word_reviews table
+-- ============================================================================
+-- Stores the SM-2 scheduling state for each (user, word) pair. Recall Mode
+-- shows due words first and grades every answer through gradeWordReview()
+-- in lib/supabase.ts, which also keeps learned_words / review_words in sync.
+--
+-- Run this in your Supabase SQL editor after RECALL_MODE_SETUP.sql.
+-- ============================================================================
+
+CREATE TABLE word_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  word_id TEXT NOT NULL,
+  direction TEXT NOT NULL DEFAULT 'recall', -- 'recall' (type Korean) or 'meaning' (type English)
+  ease FLOAT NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  last_hints_used INTEGER NOT NULL DEFAULT 0, -- Recall Mode hints revealed last time
+  total_hints_used INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Upgrading an existing word_reviews table (hint tracking):
+-- ALTER TABLE word_reviews ADD COLUMN IF NOT EXISTS last_hints_used INTEGER NOT NULL DEFAULT 0;
+-- ALTER TABLE word_reviews ADD COLUMN IF NOT EXISTS total_hints_used INTEGER NOT NULL DEFAULT 0;
+
+-- Upgrading an existing word_reviews table (separate Meaning Mode schedule):
+-- ALTER TABLE word_reviews ADD COLUMN IF NOT EXISTS direction TEXT NOT NULL DEFAULT 'recall';
+-- DROP INDEX IF EXISTS idx_word_reviews_user_word;
+-- CREATE UNIQUE INDEX idx_word_reviews_user_word_direction ON word_reviews(user_id, word_id, direction);
+
+-- One scheduling row per user, word and direction (required for upsert ON CONFLICT)
+CREATE UNIQUE INDEX idx_word_reviews_user_word_direction ON word_reviews(user_id, word_id, direction);
+CREATE INDEX idx_word_reviews_user_due ON word_reviews(user_id, due_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE word_reviews ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can view their own review schedule
+CREATE POLICY "Users can view their own word reviews"
+ON word_reviews
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own review schedule
+CREATE POLICY "Users can insert their own word reviews"
+ON word_reviews
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own review schedule
+CREATE POLICY "Users can update their own word reviews"
+ON word_reviews
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own review schedule
+CREATE POLICY "Users can delete their own word reviews"
+ON word_reviews
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- OPTIONAL: Backfill from the old learned/review lists
+-- ============================================================================
+-- Learned words start with one successful repetition (due tomorrow),
+-- review words are due immediately.
+
+INSERT INTO word_reviews (user_id, word_id, repetitions, interval_days, due_at, last_reviewed_at)
+SELECT user_id, word_id, 1, 1, COALESCE(learned_at, created_at) + INTERVAL '1 day', COALESCE(learned_at, created_at)
+FROM learned_words
+ON CONFLICT (user_id, word_id, direction) DO NOTHING;
+
+INSERT INTO word_reviews (user_id, word_id, repetitions, interval_days, lapses, due_at, last_reviewed_at)
+SELECT user_id, word_id, 0, 0, failed_count, NOW(), updated_at
+FROM review_words
+ON CONFLICT (user_id, word_id, direction) DO NOTHING;
+
+-- ============================================================================
+-- Verification
+-- ============================================================================
+-- 1. word_reviews should have 4 RLS policies (SELECT, INSERT, UPDATE, DELETE)
+-- 2. Words due today for a user:
+--    SELECT COUNT(*) FROM word_reviews
+--    WHERE user_id = auth.uid() AND due_at < date_trunc('day', NOW()) + INTERVAL '1 day';
+-- ============================================================================
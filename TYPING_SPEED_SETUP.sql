@@ -0,0 +1,66 @@
+-- ============================================================================
+-- Typing Speed: Per-Session Metrics
+-- ============================================================================
+-- Stores one row per practice session with Korean typing speed metrics
+-- (타수 = jamo strokes per minute, syllables per minute, time to first key).
+-- Rows are written by upsertTypingSession() in lib/supabase.ts.
+--
+-- Run this in your Supabase SQL editor after creating the user_stats table.
+-- ============================================================================
+
+CREATE TABLE typing_sessions (
+  id UUID PRIMARY KEY, -- generated client-side, one per page session
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  words_timed INTEGER DEFAULT 0,
+  avg_strokes_per_minute INTEGER DEFAULT 0,
+  best_strokes_per_minute INTEGER DEFAULT 0,
+  avg_syllables_per_minute INTEGER DEFAULT 0,
+  avg_time_to_first_key_ms INTEGER DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_typing_sessions_user_started ON typing_sessions(user_id, started_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE typing_sessions ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can view their own sessions
+CREATE POLICY "Users can view their own typing sessions"
+ON typing_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own sessions
+CREATE POLICY "Users can insert their own typing sessions"
+ON typing_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own sessions
+CREATE POLICY "Users can update their own typing sessions"
+ON typing_sessions
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own sessions
+CREATE POLICY "Users can delete their own typing sessions"
+ON typing_sessions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TEAM QUERIES
+-- ============================================================================
+-- Weekly average speed per user:
+-- SELECT user_id, date_trunc('week', started_at) AS week,
+--        ROUND(AVG(avg_strokes_per_minute)) AS avg_tasu
+-- FROM typing_sessions
+-- WHERE words_timed >= 10
+-- GROUP BY user_id, week
+-- ORDER BY user_id, week;
+-- ============================================================================
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration: Drop word_data snapshots from learned/review rows
+-- ============================================================================
+-- learned_words and review_words used to copy the whole word into a
+-- word_data JSONB column, and the app rendered those copies, so meaning
+-- corrections never reached users who had already practiced a word. The app
+-- now stores only word_id and looks the word up in the current word list.
+--
+-- Run the steps in order in your Supabase SQL editor. Step 1 is safe to run
+-- right away; run step 3 once every user has signed in with a version that
+-- migrates legacy word ids (migrateLegacyWordIds uses the snapshots to tell
+-- apart words spelled alike), or run step 2 first to see what's left.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Stop requiring snapshots (new rows are written without them)
+-- ============================================================================
+ALTER TABLE learned_words ALTER COLUMN word_data DROP NOT NULL;
+ALTER TABLE review_words ALTER COLUMN word_data DROP NOT NULL;
+
+-- ============================================================================
+-- STEP 2: Rows still keyed by position-based ids (word_<index>_<korean>)
+-- ============================================================================
+-- These are remapped by the app on the user's next sign-in. Rows listed
+-- here after that could not be matched and need a manual fix.
+SELECT 'learned_words' AS source, user_id, word_id, word_data->>'korean' AS korean
+FROM learned_words
+WHERE word_id ~ '^word_[0-9]+_'
+UNION ALL
+SELECT 'review_words', user_id, word_id, word_data->>'korean'
+FROM review_words
+WHERE word_id ~ '^word_[0-9]+_'
+ORDER BY source, user_id;
+
+-- ============================================================================
+-- STEP 3: Drop the snapshot column
+-- ============================================================================
+-- ALTER TABLE learned_words DROP COLUMN word_data;
+-- ALTER TABLE review_words DROP COLUMN word_data;
+-- ============================================================================
@@ -0,0 +1,39 @@
+import type { Deck } from "../lib/supabase";
+
+// Compact "Add to deck…" picker. Decks that already hold every one of the
+// words are shown as added and can't be picked again.
+export default function AddToDeckSelect({
+  decks,
+  wordIds,
+  onAdd,
+  label = "Add to deck…",
+}: {
+  decks: Deck[];
+  wordIds: string[];
+  onAdd: (deckId: string) => void;
+  label?: string;
+}) {
+  if (decks.length === 0 || wordIds.length === 0) return null;
+
+  return (
+    <select
+      value=""
+      onChange={(e) => {
+        if (e.target.value) onAdd(e.target.value);
+      }}
+      className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-300"
+    >
+      <option value="">{label}</option>
+      {decks.map((deck) => {
+        const inDeck = new Set(deck.word_ids);
+        const hasAll = wordIds.every((id) => inDeck.has(id));
+        return (
+          <option key={deck.id} value={deck.id} disabled={hasAll}>
+            {deck.name}
+            {hasAll ? " ✓" : ""}
+          </option>
+        );
+      })}
+    </select>
+  );
+}
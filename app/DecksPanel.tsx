@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { isCustomWord, resolveWordIds } from "../data/words";
+import type { Deck } from "../lib/supabase";
+
+// Custom decks: create, rename and delete decks, look through their words,
+// and pick one to practice instead of the level filters.
+export default function DecksPanel({
+  decks,
+  activeDeckId,
+  onCreate,
+  onRename,
+  onDelete,
+  onPractice,
+  onRemoveWord,
+  onImport,
+  onExport,
+  onClose,
+}: {
+  decks: Deck[];
+  activeDeckId: string | null;
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (deck: Deck, name: string) => Promise<boolean>;
+  onDelete: (deck: Deck) => void;
+  onPractice: (deck: Deck | null) => void;
+  onRemoveWord: (deck: Deck, wordId: string) => void;
+  onImport: () => void;
+  onExport: (deck: Deck) => void;
+  onClose: () => void;
+}) {
+  const [newName, setNewName] = useState("");
+  const [openDeckId, setOpenDeckId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const create = async () => {
+    if (!newName.trim()) return;
+    if (await onCreate(newName)) setNewName("");
+  };
+
+  const rename = async (deck: Deck) => {
+    if (!renaming?.name.trim()) return;
+    if (await onRename(deck, renaming.name)) setRenaming(null);
+  };
+
+  return (
+    <div className="mb-6 space-y-3 rounded-lg border border-violet-900/60 bg-slate-900 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-100">My decks ({decks.length})</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-xl"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          create();
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New deck name..."
+          className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-50 outline-none focus:border-violet-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="rounded-md bg-violet-600 px-3 py-1 text-xs font-medium hover:bg-violet-500 disabled:opacity-40 transition"
+        >
+          Create
+        </button>
+        <button
+          type="button"
+          onClick={onImport}
+          className="rounded-md bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 transition"
+        >
+          Import…
+        </button>
+      </form>
+
+      {decks.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          No decks yet. Create one, then add words from Dictionary Mode or the Learned/To Review
+          tabs, or import a CSV/TSV or Anki list.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {decks.map((deck) => {
+            const isActive = deck.id === activeDeckId;
+            const isOpen = deck.id === openDeckId;
+            const { words, orphaned } = isOpen
+              ? resolveWordIds(deck.word_ids)
+              : { words: [], orphaned: [] };
+            return (
+              <li
+                key={deck.id}
+                className={`space-y-2 rounded-md border p-3 text-xs ${
+                  isActive ? "border-violet-500 bg-violet-950/40" : "border-slate-800 bg-slate-800/60"
+                }`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  {renaming?.id === deck.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        rename(deck);
+                      }}
+                      className="flex flex-1 gap-2"
+                    >
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: deck.id, name: e.target.value })}
+                        className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-50 outline-none focus:border-violet-500"
+                        autoFocus
+                      />
+                      <button type="submit" className="text-violet-300 hover:text-violet-200">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRenaming(null)}
+                        className="text-slate-400 hover:text-slate-200"
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setOpenDeckId(isOpen ? null : deck.id)}
+                      className="text-left text-sm font-semibold text-slate-100 hover:text-white"
+                    >
+                      {isOpen ? "▾" : "▸"} {deck.name}
+                      <span className="ml-2 font-normal text-slate-400">
+                        {deck.word_ids.length} word{deck.word_ids.length !== 1 ? "s" : ""}
+                      </span>
+                    </button>
+                  )}
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => onPractice(isActive ? null : deck)}
+                      disabled={!isActive && deck.word_ids.length === 0}
+                      className="font-medium text-violet-300 hover:text-violet-200 disabled:opacity-40"
+                    >
+                      {isActive ? "Stop practicing" : "Practice"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRenaming({ id: deck.id, name: deck.name })}
+                      className="text-slate-400 hover:text-slate-200"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onExport(deck)}
+                      disabled={deck.word_ids.length === 0}
+                      className="text-slate-400 hover:text-slate-200 disabled:opacity-40"
+                    >
+                      Export
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (confirm(`Delete the deck "${deck.name}"? Your progress on its words is kept.`)) {
+                          onDelete(deck);
+                        }
+                      }}
+                      className="text-rose-400 hover:text-rose-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {isOpen && (
+                  <ul className="max-h-48 space-y-1 overflow-y-auto">
+                    {words.length === 0 && (
+                      <li className="text-slate-500">This deck is empty.</li>
+                    )}
+                    {words.map((word) => (
+                      <li key={word.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          <span className="font-semibold text-emerald-300">{word.korean}</span>{" "}
+                          <span className="text-slate-400">{word.en}</span>
+                          {isCustomWord(word) && <span className="ml-1 text-sky-400">(your word)</span>}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => onRemoveWord(deck, word.id)}
+                          className="shrink-0 text-slate-500 hover:text-rose-300"
+                          aria-label={`Remove ${word.korean}`}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                    {orphaned.length > 0 && (
+                      <li className="text-amber-300">
+                        {orphaned.length} word{orphaned.length !== 1 ? "s are" : " is"} no longer in the word list.
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import type { Word } from "../data/words";
+
+// Fixed row height keeps the virtualization math trivial
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 384;
+// Extra rows rendered above/below the viewport so fast scrolling doesn't flash
+const OVERSCAN = 6;
+
+// Dictionary Mode result list. Only the rows in (or near) the viewport are
+// rendered, so a short query matching thousands of words stays responsive.
+// Clicking a row opens it in the detail panel.
+export default function DictionaryResults({
+  results,
+  selectedId,
+  onSelect,
+}: {
+  results: Word[];
+  selectedId: string | null;
+  onSelect: (word: Word) => void;
+}) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    results.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <div className="mb-2 text-xs font-medium text-slate-400 px-2">
+        {results.length} result{results.length !== 1 ? "s" : ""}
+      </div>
+      <div
+        className="overflow-y-auto"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, results.length * ROW_HEIGHT) }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: results.length * ROW_HEIGHT }}>
+          {results.slice(first, last).map((word, offset) => (
+            <div
+              key={word.id}
+              className="absolute inset-x-0 px-0.5 py-1"
+              style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(word)}
+                className={`block h-full w-full rounded-md border px-2 py-1 text-left transition ${
+                  word.id === selectedId
+                    ? "border-emerald-500 bg-emerald-900/40"
+                    : "border-emerald-900/40 bg-emerald-900/15 hover:bg-emerald-900/25"
+                }`}
+              >
+                <div className="truncate text-sm font-semibold text-emerald-300">
+                  {word.korean}
+                  {word.hanja && (
+                    <span className="ml-2 text-xs font-normal text-slate-400">
+                      {word.hanja}
+                    </span>
+                  )}
+                </div>
+                <div className="truncate text-xs text-slate-300 mt-0.5">
+                  {word.en}
+                  {word.zh && (
+                    <span className="text-slate-400 ml-1">/ {word.zh}</span>
+                  )}
+                </div>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
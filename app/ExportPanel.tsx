@@ -0,0 +1,124 @@
+import { useState } from "react";
+import {
+  DEFAULT_EXPORT_LAYOUT,
+  EXPORT_FIELDS,
+  EXPORT_FIELD_LABELS,
+  EXPORT_FORMAT_LABELS,
+  exportFileName,
+  exportWords,
+  layoutSides,
+  type CardSide,
+  type ExportFormat,
+  type ExportLayout,
+  type ExportRow,
+} from "../lib/wordExport";
+
+const SIDE_OPTIONS: { value: CardSide | ""; label: string }[] = [
+  { value: "front", label: "Front" },
+  { value: "back", label: "Back" },
+  { value: "", label: "—" },
+];
+
+// Export a word list (a Learned/To Review tab or a deck) as CSV, TSV or an
+// Anki import file, with the fields for each side of the card picked here.
+export default function ExportPanel({
+  title,
+  fileLabel,
+  rows,
+  onClose,
+}: {
+  title: string;
+  fileLabel: string; // used in the download name, e.g. "learned"
+  rows: ExportRow[];
+  onClose: () => void;
+}) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [layout, setLayout] = useState<ExportLayout>(DEFAULT_EXPORT_LAYOUT);
+
+  const sides = layoutSides(layout);
+  const canExport = rows.length > 0 && sides.front.length > 0;
+
+  const download = () => {
+    const content = exportWords(rows, format, layout);
+    const blob = new Blob([content], {
+      type: format === "csv" ? "text/csv;charset=utf-8" : "text/plain;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = exportFileName(fileLabel, format);
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log(`[Export] ${rows.length} words as ${format}: ${link.download}`);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-700 bg-slate-900 p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-100">
+          Export {title} ({rows.length} word{rows.length !== 1 ? "s" : ""})
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-lg"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <label className="flex items-center gap-1">
+        <span className="text-slate-400">Format</span>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((f) => (
+            <option key={f} value={f}>
+              {EXPORT_FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-4">
+        {EXPORT_FIELDS.map((field) => (
+          <label key={field} className="flex items-center justify-between gap-1">
+            <span className="text-slate-300">{EXPORT_FIELD_LABELS[field]}</span>
+            <select
+              value={layout[field] ?? ""}
+              onChange={(e) =>
+                setLayout({ ...layout, [field]: (e.target.value || undefined) as CardSide | undefined })
+              }
+              className="rounded-md border border-slate-700 bg-slate-900 px-1 py-0.5 text-xs"
+            >
+              {SIDE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-500">
+          {format === "anki"
+            ? "Import in Anki with File → Import; fields are Front and Back."
+            : "One column per field, front fields first."}
+        </span>
+        <button
+          type="button"
+          onClick={download}
+          disabled={!canExport}
+          className="rounded-md bg-sky-600 px-3 py-1 font-medium hover:bg-sky-500 disabled:opacity-40 transition"
+        >
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useMemo, useState } from "react";
+import { wordsById } from "../data/words";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMAT_LABELS,
+  buildImportPreview,
+  detectImportFormat,
+  guessColumnMapping,
+  parseImportText,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportRowStatus,
+} from "../lib/wordImport";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  matched: "In word list",
+  custom: "New word",
+  duplicate: "Duplicate",
+  error: "Error",
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  matched: "bg-emerald-900/60 text-emerald-300",
+  custom: "bg-sky-900/60 text-sky-300",
+  duplicate: "bg-slate-700 text-slate-300",
+  error: "bg-rose-900/60 text-rose-300",
+};
+
+// Rows rendered in the preview table (the counts cover every row)
+const PREVIEW_LIMIT = 200;
+
+// Word list importer: CSV/TSV with column mapping or an Anki "Notes in Plain
+// Text" export, parsed and matched in the browser. The preview shows what
+// each row becomes; the importable rows are saved as a new deck.
+export default function ImportPanel({
+  deckNames,
+  onSave,
+  onClose,
+}: {
+  deckNames: string[];
+  onSave: (name: string, preview: ImportPreview) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [deckName, setDeckName] = useState("");
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const table = useMemo(
+    () => (text.trim() ? parseImportText(text, format, hasHeader) : null),
+    [text, format, hasHeader]
+  );
+  const preview = useMemo(
+    () => (table && mapping ? buildImportPreview(table, mapping, wordsById.values()) : null),
+    [table, mapping]
+  );
+
+  // Re-parse and guess the columns again whenever the input changes shape
+  const load = (nextText: string, nextFormat: ImportFormat, nextHasHeader: boolean) => {
+    setText(nextText);
+    setFormat(nextFormat);
+    setHasHeader(nextHasHeader);
+    setMapping(
+      nextText.trim()
+        ? guessColumnMapping(parseImportText(nextText, nextFormat, nextHasHeader))
+        : null
+    );
+  };
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    if (!deckName.trim()) setDeckName(file.name.replace(/\.[^.]+$/, ""));
+    load(content, detectImportFormat(file.name, content), hasHeader);
+  };
+
+  const trimmedName = deckName.trim();
+  const nameTaken = deckNames.some((name) => name.toLowerCase() === trimmedName.toLowerCase());
+  const canSave =
+    !!preview && preview.words.length > 0 && !!trimmedName && !nameTaken && !isSaving;
+
+  const save = async () => {
+    if (!preview || !canSave) return;
+    setIsSaving(true);
+    const ok = await onSave(trimmedName, preview);
+    setIsSaving(false);
+    if (ok) onClose();
+  };
+
+  const shownRows = (preview?.rows ?? []).filter(
+    (row) => !onlyProblems || row.messages.length > 0
+  );
+
+  return (
+    <div className="mb-6 space-y-3 rounded-lg border border-sky-900/60 bg-slate-900 p-4 text-xs">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-100">Import word list</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-xl"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <p className="text-slate-400">
+        CSV or TSV with a Korean column, or an Anki export (File → Export → Notes in Plain Text).
+        Words in the word list keep your progress; others are added as your own words.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+          className="text-slate-300 file:mr-2 file:rounded-md file:border-0 file:bg-slate-700 file:px-3 file:py-1 file:text-xs file:text-slate-100"
+        />
+        <label className="flex items-center gap-1">
+          <span className="text-slate-400">Format</span>
+          <select
+            value={format}
+            onChange={(e) => load(text, e.target.value as ImportFormat, hasHeader)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+          >
+            {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {IMPORT_FORMAT_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {format !== "anki" && (
+          <label className="flex items-center gap-1 text-slate-300">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => load(text, format, e.target.checked)}
+            />
+            First row is a header
+          </label>
+        )}
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          // Detect the format when pasting into an empty box; keep it while editing
+          const pasted = e.target.value;
+          load(pasted, text ? format : detectImportFormat("", pasted), hasHeader);
+        }}
+        placeholder="...or paste the list here"
+        className="h-24 w-full resize-y rounded-md border border-slate-700 bg-slate-900 px-2 py-1 font-mono text-slate-50 outline-none focus:border-sky-500"
+      />
+
+      {table && mapping && (
+        <div className="flex flex-wrap gap-3">
+          {IMPORT_FIELDS.map((field) => (
+            <label key={field} className="flex items-center gap-1">
+              <span className="text-slate-400">
+                {IMPORT_FIELD_LABELS[field]}
+                {field === "korean" && "*"}
+              </span>
+              <select
+                value={mapping[field] ?? ""}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    [field]: e.target.value === "" ? null : Number(e.target.value),
+                  })
+                }
+                className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+              >
+                <option value="">—</option>
+                {table.columns.map((column, idx) => (
+                  <option key={idx} value={idx}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                <span key={status} className={`rounded px-1.5 py-0.5 ${STATUS_STYLES[status]}`}>
+                  {STATUS_LABELS[status]}: {preview.counts[status]}
+                </span>
+              ))}
+            </div>
+            <label className="flex items-center gap-1 text-slate-300">
+              <input
+                type="checkbox"
+                checked={onlyProblems}
+                onChange={(e) => setOnlyProblems(e.target.checked)}
+              />
+              Only rows with notes
+            </label>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto rounded-md border border-slate-800">
+            <table className="w-full text-left">
+              <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                <tr>
+                  <th className="px-2 py-1 font-medium">Row</th>
+                  <th className="px-2 py-1 font-medium">Korean</th>
+                  <th className="px-2 py-1 font-medium">Meaning</th>
+                  <th className="px-2 py-1 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {shownRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <tr key={row.row} className="align-top">
+                    <td className="px-2 py-1 text-slate-500">{row.row}</td>
+                    <td className="px-2 py-1 font-semibold text-slate-100">{row.korean || "—"}</td>
+                    <td className="px-2 py-1 text-slate-300">{row.word?.en ?? (row.en || "—")}</td>
+                    <td className="px-2 py-1">
+                      <span className={`rounded px-1.5 py-0.5 ${STATUS_STYLES[row.status]}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                      {row.messages.map((message, idx) => (
+                        <div
+                          key={idx}
+                          className={row.status === "error" ? "mt-1 text-rose-300" : "mt-1 text-amber-300"}
+                        >
+                          {message}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shownRows.length > PREVIEW_LIMIT && (
+              <div className="px-2 py-1 text-slate-500">
+                Showing the first {PREVIEW_LIMIT} of {shownRows.length} rows.
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={deckName}
+              onChange={(e) => setDeckName(e.target.value)}
+              placeholder="Deck name"
+              className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-50 outline-none focus:border-sky-500"
+            />
+            <button
+              type="button"
+              onClick={save}
+              disabled={!canSave}
+              className="rounded-md bg-sky-600 px-3 py-1 font-medium hover:bg-sky-500 disabled:opacity-40 transition"
+            >
+              {isSaving ? "Saving..." : `Save ${preview.words.length} word${preview.words.length !== 1 ? "s" : ""} as deck`}
+            </button>
+          </div>
+          {nameTaken && <p className="text-rose-300">You already have a deck with that name.</p>}
+          {preview.counts.error > 0 && (
+            <p className="text-slate-400">Rows with errors are left out of the deck.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { DUBEOLSIK_ROWS, nextKeyFor } from "../lib/dubeolsik";
+
+// Row offsets roughly follow a physical keyboard's stagger
+const ROW_INDENT = ["pl-0", "pl-4", "pl-10"];
+
+// Virtual 2-beolsik keyboard shown under the input in Copy Mode.
+// Highlights the next physical key (and Shift for ㄲ/ㅆ/ㅒ/ㅖ…) based on the
+// current word and what is already typed, and flashes the key that was
+// pressed when the last keystroke produced a mistake.
+export default function KeyboardOverlay({
+  target,
+  typed,
+  wrongKeyCode,
+}: {
+  target: string;
+  typed: string;
+  wrongKeyCode: string | null;
+}) {
+  const next = nextKeyFor(typed, target);
+  const nextCode = next.kind === "key" ? next.press.code : null;
+  const needsShift = next.kind === "key" && next.press.shift;
+
+  const keyClass = (highlighted: boolean, wrong: boolean) =>
+    [
+      "flex h-9 min-w-9 flex-col items-center justify-center rounded-md border text-sm transition-colors duration-150",
+      wrong
+        ? "border-red-500 bg-red-500/30 text-red-200"
+        : highlighted
+          ? "border-sky-400 bg-sky-500/30 text-white"
+          : "border-slate-700 bg-slate-800/70 text-slate-300",
+    ].join(" ");
+
+  return (
+    <div className="mt-3 select-none space-y-1 text-center" aria-hidden="true">
+      {DUBEOLSIK_ROWS.map((row, rowIdx) => (
+        <div
+          key={rowIdx}
+          className={`flex justify-center gap-1 ${ROW_INDENT[rowIdx] ?? ""}`}
+        >
+          {row.map((k) => {
+            const isNext = k.code === nextCode;
+            const label = isNext && needsShift ? k.shiftJamo ?? k.jamo : k.jamo;
+            return (
+              <div key={k.code} className={keyClass(isNext, k.code === wrongKeyCode)}>
+                <span className="leading-none">{label}</span>
+                <span className="text-[9px] uppercase leading-none text-slate-500">
+                  {k.latin}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      <div className="flex justify-center gap-1">
+        <div className={`${keyClass(needsShift, false)} w-20`}>Shift</div>
+        <div className={`${keyClass(next.kind === "other" && next.char === " ", false)} w-40`}>
+          Space
+        </div>
+        <div className={`${keyClass(next.kind === "backspace", false)} w-20`}>
+          ⌫
+        </div>
+      </div>
+    </div>
+  );
+}
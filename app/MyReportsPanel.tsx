@@ -0,0 +1,169 @@
+import { useState } from "react";
+import {
+  REPORT_FIELD_LABELS,
+  REPORT_STATUS_LABELS,
+  reportField,
+  type MeaningReport,
+  type ReportStatus,
+} from "../lib/moderation";
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  pending: "bg-amber-900/60 text-amber-300",
+  reviewed: "bg-sky-900/60 text-sky-300",
+  applied: "bg-emerald-900/60 text-emerald-300",
+  rejected: "bg-slate-700 text-slate-300",
+};
+
+// "My reports": the signed-in user's reported_meanings rows with their
+// moderation status. Pending reports can still be edited or withdrawn.
+export default function MyReportsPanel({
+  reports,
+  onSave,
+  onWithdraw,
+  onClose,
+}: {
+  reports: MeaningReport[];
+  onSave: (report: MeaningReport, correctedValue: string, notes: string) => Promise<boolean>;
+  onWithdraw: (report: MeaningReport) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [editing, setEditing] = useState<{ id: string; value: string; notes: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const save = async (report: MeaningReport) => {
+    if (!editing || !editing.value.trim()) return;
+    setBusyId(report.id);
+    const ok = await onSave(report, editing.value.trim(), editing.notes);
+    setBusyId(null);
+    if (ok) setEditing(null);
+  };
+
+  const withdraw = async (report: MeaningReport) => {
+    if (!confirm(`Withdraw your report for ${report.korean}?`)) return;
+    setBusyId(report.id);
+    await onWithdraw(report);
+    setBusyId(null);
+  };
+
+  return (
+    <div className="mb-6 space-y-3 rounded-lg border border-orange-900/60 bg-slate-900 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-100">
+          My reports ({reports.length})
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-xl"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {reports.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          You haven&apos;t reported any words yet. Use the orange button while practicing.
+        </p>
+      ) : (
+        <ul className="max-h-96 space-y-2 overflow-y-auto">
+          {reports.map((report) => {
+            const isEditing = editing?.id === report.id;
+            const isPending = report.status === "pending";
+            return (
+              <li key={report.id} className="space-y-1 rounded-md bg-slate-800/60 p-3 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-semibold text-emerald-300">{report.korean}</span>
+                    <span className="ml-2 text-slate-400">{REPORT_FIELD_LABELS[reportField(report)]}</span>
+                  </div>
+                  <span className={`rounded px-1.5 py-0.5 ${STATUS_STYLES[report.status] ?? STATUS_STYLES.pending}`}>
+                    {REPORT_STATUS_LABELS[report.status] ?? report.status}
+                  </span>
+                </div>
+
+                {isEditing ? (
+                  <div className="space-y-2 pt-1">
+                    <input
+                      type="text"
+                      value={editing.value}
+                      onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                      className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-50 outline-none focus:border-sky-500"
+                      autoFocus
+                    />
+                    <textarea
+                      value={editing.notes}
+                      onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                      placeholder="Notes (optional)"
+                      className="h-14 w-full resize-none rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-50 outline-none focus:border-sky-500"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        disabled={busyId === report.id || !editing.value.trim()}
+                        onClick={() => save(report)}
+                        className="rounded-md bg-sky-600 px-3 py-1 font-medium hover:bg-sky-500 disabled:opacity-40 transition"
+                      >
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="rounded-md bg-slate-700 px-3 py-1 font-medium hover:bg-slate-600 transition"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="text-slate-300">
+                      <span className="text-slate-500 line-through">{report.current_meaning || "—"}</span>
+                      {" → "}
+                      <span className="text-slate-100">{report.corrected_meaning}</span>
+                    </div>
+                    {report.notes && <div className="text-slate-400">“{report.notes}”</div>}
+                    <div className="flex items-center justify-between gap-2 text-slate-500">
+                      <span>
+                        Sent {new Date(report.created_at).toLocaleDateString()}
+                        {report.updated_at && report.updated_at !== report.created_at && (
+                          <> · updated {new Date(report.updated_at).toLocaleDateString()}</>
+                        )}
+                      </span>
+                      {isPending && (
+                        <span className="flex gap-2">
+                          <button
+                            type="button"
+                            disabled={busyId === report.id}
+                            onClick={() =>
+                              setEditing({
+                                id: report.id,
+                                value: report.corrected_meaning,
+                                notes: report.notes ?? "",
+                              })
+                            }
+                            className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            disabled={busyId === report.id}
+                            onClick={() => withdraw(report)}
+                            className="text-rose-400 hover:text-rose-300 disabled:opacity-40"
+                          >
+                            Withdraw
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import type { QuizQuestion } from "../lib/quiz";
+import SenseList from "./SenseList";
+
+// Quiz Mode: one side of the word as the prompt and four options.
+// Options are answered by clicking or with the number keys 1–4; once
+// answered, the correct option is shown in green and a wrong pick in red.
+export default function QuizPanel({
+  question,
+  selectedIndex,
+  onAnswer,
+}: {
+  question: QuizQuestion;
+  selectedIndex: number | null;
+  onAnswer: (index: number) => void;
+}) {
+  const { word, prompt, options, answerIndex } = question;
+  const answered = selectedIndex !== null;
+
+  // Number keys (top row or numpad) pick an option
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.isComposing || e.ctrlKey || e.metaKey || e.altKey) return;
+      const match = /^(?:Digit|Numpad)([1-9])$/.exec(e.code);
+      if (!match) return;
+      const index = Number(match[1]) - 1;
+      if (index < options.length) {
+        e.preventDefault();
+        onAnswer(index);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [options.length, onAnswer]);
+
+  const optionClass = (idx: number) => {
+    if (answered && idx === answerIndex) {
+      return "border-emerald-500 bg-emerald-500/20 text-emerald-100";
+    }
+    if (answered && idx === selectedIndex) {
+      return "border-rose-500 bg-rose-500/20 text-rose-100";
+    }
+    return "border-slate-700 bg-slate-900 text-slate-100 hover:border-sky-500";
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="space-y-1 text-center">
+        {prompt === "korean" ? (
+          <div className="text-3xl md:text-4xl font-semibold tracking-wide text-slate-50">
+            {word.korean}
+          </div>
+        ) : (
+          <div className="text-lg font-semibold text-slate-100">
+            <SenseList senses={word.senses} />
+          </div>
+        )}
+        {word.classification && (
+          <div className="text-xs text-slate-400">{word.classification}</div>
+        )}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {options.map((option, idx) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onAnswer(idx)}
+            disabled={answered}
+            className={`flex items-center gap-3 rounded-lg border px-3 py-2 text-left transition ${optionClass(idx)}`}
+          >
+            <span className="font-mono text-xs text-slate-400">{idx + 1}</span>
+            <span className={prompt === "korean" ? "text-sm" : "text-xl font-semibold"}>
+              {prompt === "korean" ? option.en : option.korean}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
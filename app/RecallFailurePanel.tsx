@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import type { Word } from "../data/words";
+import { diffSyllables, type JamoMistake } from "../lib/hangul";
+import { splitMeanings } from "../lib/meaning";
+import SenseList from "./SenseList";
+import type { ReviewDirection } from "../lib/srs";
+
+const MISTAKE_LABELS: Record<JamoMistake, string> = {
+  "tense-vs-plain": "Tense vs. plain consonant",
+  "aspirated-vs-plain": "Aspirated vs. plain consonant",
+  "wrong-consonant": "Wrong consonant",
+  "similar-vowel": "Similar-sounding vowel",
+  "wrong-vowel": "Wrong vowel",
+  "missing-batchim": "Missing batchim",
+  "extra-batchim": "Extra batchim",
+  "wrong-batchim": "Wrong batchim",
+  "missing-syllable": "Missing syllable",
+  "extra-syllable": "Extra syllable",
+  "wrong-character": "Wrong character",
+};
+
+// Shown after a wrong Recall Mode answer: the correct word next to the
+// user's attempt, with a syllable- and jamo-level diff explaining what went
+// wrong. After a wrong Meaning Mode answer it lists the accepted meanings
+// instead. The game only moves on once the user presses a key.
+export default function RecallFailurePanel({
+  word,
+  attempt,
+  direction = "recall",
+  onContinue,
+}: {
+  word: Word;
+  attempt: string;
+  direction?: ReviewDirection;
+  onContinue: () => void;
+}) {
+  const diff = direction === "recall" ? diffSyllables(word.korean, attempt) : [];
+
+  // Enter, Space or Escape continues (listener is added after the Enter that
+  // submitted the answer, so that keystroke doesn't dismiss the panel)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.isComposing) return;
+      if (e.key === "Enter" || e.key === " " || e.key === "Escape") {
+        e.preventDefault();
+        onContinue();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onContinue]);
+
+  return (
+    <div className="mb-6 space-y-4 rounded-lg border border-rose-900/60 bg-rose-950/30 p-4 text-center">
+      <div className="text-xs font-semibold uppercase tracking-[0.2em] text-rose-300">
+        Not quite
+      </div>
+
+      {direction === "meaning" ? (
+        <>
+          <div className="text-3xl font-semibold text-slate-50">{word.korean}</div>
+          <div className="text-sm text-rose-400 line-through">{attempt}</div>
+          <ul className="space-y-1 text-sm text-emerald-300">
+            {splitMeanings(word.senses).map((meaning, idx) => (
+              <li key={idx}>{meaning}</li>
+            ))}
+          </ul>
+        </>
+      ) : (
+      <>
+      <div className="text-sm text-slate-300">
+        <SenseList senses={word.senses} />
+      </div>
+
+      {/* Syllable-by-syllable comparison: answer on top, attempt below */}
+      <div className="flex justify-center gap-3">
+        {diff.map((d, idx) => {
+          const isWrong = d.mistakes.length > 0;
+          return (
+            <div key={idx} className="flex flex-col items-center gap-1">
+              <span className="text-3xl font-semibold text-emerald-300">
+                {d.target || "·"}
+              </span>
+              <span
+                className={`text-2xl font-semibold ${
+                  isWrong ? "text-rose-400" : "text-slate-400"
+                }`}
+              >
+                {d.typed || "·"}
+              </span>
+              {d.parts.length > 0 && isWrong && (
+                <span className="font-mono text-xs">
+                  {d.parts.map((p) => (
+                    <span
+                      key={p.slot}
+                      className={`px-0.5 ${p.ok ? "text-slate-500" : "text-rose-300"}`}
+                      title={p.slot}
+                    >
+                      {p.ok ? p.target || "∅" : `${p.typed || "∅"}→${p.target || "∅"}`}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ul className="space-y-1 text-xs text-slate-300">
+        {diff
+          .filter((d) => d.mistakes.length > 0)
+          .map((d, idx) => (
+            <li key={idx}>
+              <span className="font-semibold text-slate-100">
+                {d.target || d.typed}
+              </span>
+              {": "}
+              {d.mistakes.map((m) => MISTAKE_LABELS[m]).join(", ")}
+            </li>
+          ))}
+      </ul>
+      </>
+      )}
+
+      <button
+        type="button"
+        onClick={onContinue}
+        className="rounded-md bg-slate-700 px-4 py-1.5 text-xs font-medium hover:bg-slate-600 transition"
+      >
+        Continue (Enter)
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import type { Sense } from "../lib/meaning";
+
+// A word's English meaning, one line per sense. A single sense stays inline
+// ("to go; to leave"); several senses become a numbered list.
+export default function SenseList({
+  senses,
+  className = "",
+}: {
+  senses: Sense[];
+  className?: string;
+}) {
+  if (senses.length <= 1) {
+    return <span className={className}>{senses[0]?.glosses.join("; ")}</span>;
+  }
+
+  return (
+    <ol className={`inline-block list-decimal list-inside text-left align-top ${className}`}>
+      {senses.map((sense, idx) => (
+        <li key={idx}>{sense.glosses.join("; ")}</li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,89 @@
+import type { Word } from "../data/words";
+import { formatSprintDuration, isBetterSprint, type SprintResult } from "../lib/sprint";
+
+// Results screen at the end of a timed sprint: the run's numbers, the
+// personal best for the same mode/duration/level, and the missed words.
+export default function SprintResultsPanel({
+  result,
+  previousBest,
+  missedWords,
+  onRestart,
+  onClose,
+}: {
+  result: SprintResult;
+  previousBest: SprintResult | null;
+  missedWords: Word[];
+  onRestart: () => void;
+  onClose: () => void;
+}) {
+  const isNewBest = isBetterSprint(result, previousBest);
+
+  const stats = [
+    { label: "Words", value: result.wordsCompleted },
+    { label: "Accuracy", value: `${result.accuracy}%` },
+    { label: "Best streak", value: result.bestStreak },
+    { label: "Speed", value: `${result.strokesPerMinute} 타` },
+  ];
+
+  return (
+    <div className="mb-6 space-y-4 rounded-lg border border-sky-900/60 bg-sky-950/30 p-4 text-center">
+      <div className="text-xs font-semibold uppercase tracking-[0.2em] text-sky-300">
+        {formatSprintDuration(result.durationSeconds)} sprint · {result.mode === "copy" ? "Copy" : "Recall"} · Level {result.level}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-md bg-slate-900/70 p-2">
+            <div className="text-2xl font-semibold text-slate-50">{stat.value}</div>
+            <div className="text-xs text-slate-400">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-sm">
+        {isNewBest ? (
+          <span className="font-medium text-emerald-400">New personal best!</span>
+        ) : (
+          previousBest && (
+            <span className="text-slate-400">
+              Personal best: {previousBest.wordsCompleted} words, {previousBest.accuracy}%
+            </span>
+          )
+        )}
+      </div>
+
+      {missedWords.length > 0 && (
+        <div className="space-y-1 text-left">
+          <div className="text-xs font-semibold text-slate-300">
+            Missed words ({missedWords.length})
+          </div>
+          <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+            {missedWords.map((word) => (
+              <li key={word.id} className="flex gap-2">
+                <span className="font-semibold text-rose-300">{word.korean}</span>
+                <span className="truncate text-slate-400">{word.en}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-center gap-2">
+        <button
+          type="button"
+          onClick={onRestart}
+          className="rounded-md bg-sky-600 px-4 py-1.5 text-xs font-medium hover:bg-sky-500 transition"
+        >
+          Run again
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md bg-slate-700 px-4 py-1.5 text-xs font-medium hover:bg-slate-600 transition"
+        >
+          Back to practice
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,124 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { allWords, type Word } from "../data/words";
-import { 
-  onAuthStateChange,
-  signIn, 
-  signOut, 
-  signUp, 
-  fetchUserStats, 
-  upsertUserStats,
-  fetchLearnedWords,
-  fetchReviewWords,
-  addLearnedWord,
-  addReviewWord,
-  removeReviewWord,
-  reportIncorrectMeaning,
-  type UserStats 
+import {
+  allWords,
+  applyMeaningCorrections,
+  registerCustomWords,
+  resolveWordIds,
+  wordsById,
+  type Word,
+} from "../data/words";
+import {
+  migrateLegacyWordIds,
+  fetchMeaningCorrections,
+  fetchDecks,
+  createDeck,
+  updateDeck,
+  deleteDeck,
+  addWordsToDeck,
+  removeWordFromDeck,
+  fetchCustomWords,
+  saveCustomWords,
+  mergeGuestProgress,
+  type Deck,
+  type UserStats,
+  type TypingSessionStats,
 } from "../lib/supabase";
+import { progressRepository, syncOutbox } from "../lib/progressRepository";
+import {
+  countIncorrect,
+  extractChoseong,
+  gradeInput,
+  isHangulSyllable,
+  toKeystrokes,
+} from "../lib/hangul";
+import {
+  applyKeyPress,
+  hasLatinLetters,
+  latinToHangul,
+} from "../lib/hangulAutomaton";
+import {
+  computeLiveStrokesPerMinute,
+  computeWordSpeed,
+  summarizeSession,
+  type KeystrokeSample,
+  type WordSpeed,
+} from "../lib/typingMetrics";
+import {
+  QUALITY_HARD,
+  QUALITY_SKIPPED,
+  QUALITY_WRONG,
+  isDue,
+  isDueToday,
+  isPassingQuality,
+  markForReview,
+  qualityForAnswer,
+  scheduleReview,
+  type ReviewDirection,
+  type ReviewQuality,
+  type SrsState,
+} from "../lib/srs";
+import { isMeaningCorrect } from "../lib/meaning";
+import {
+  findPendingReport,
+  REPORT_FIELDS,
+  REPORT_FIELD_LABELS,
+  REPORT_STATUS_LABELS,
+  type MeaningReport,
+  type ReportField,
+} from "../lib/moderation";
+import { buildSearchIndex, searchWords } from "../lib/search";
+import {
+  SPRINT_DURATIONS,
+  createSprint,
+  finishSprint,
+  formatSprintDuration,
+  isBetterSprint,
+  recordSprintAnswer,
+  sprintBestKey,
+  sprintRemainingMs,
+  startSprint,
+  type SprintDuration,
+  type SprintResult,
+  type SprintRun,
+} from "../lib/sprint";
+import { buildQuizQuestion, seededRandom, type QuizPrompt } from "../lib/quiz";
+import {
+  clearGuestProgress,
+  hasGuestProgress,
+  loadGuestProgress,
+  saveGuestProgress,
+  type GuestMergeSummary,
+} from "../lib/guestProgress";
+import type { OutboxStatus } from "../lib/outbox";
+import type { ExportRow } from "../lib/wordExport";
+import type { ImportPreview } from "../lib/wordImport";
+import AddToDeckSelect from "./AddToDeckSelect";
+import DecksPanel from "./DecksPanel";
+import DictionaryResults from "./DictionaryResults";
+import ExportPanel from "./ExportPanel";
+import ImportPanel from "./ImportPanel";
+import KeyboardOverlay from "./KeyboardOverlay";
+import QuizPanel from "./QuizPanel";
+import MyReportsPanel from "./MyReportsPanel";
+import RecallFailurePanel from "./RecallFailurePanel";
+import SenseList from "./SenseList";
+import SprintResultsPanel from "./SprintResultsPanel";
+import WordDetailPanel from "./WordDetailPanel";
 
 // Game modes:
 // - "copy": show the Korean word and ask the user to copy it
 // - "recall": hide the Korean word, user recalls it from the definition
+// - "meaning": show the Korean word, user types the English meaning
+// - "quiz": multiple choice, pick the matching word or meaning out of four
 // - "dictionary": search mode, type characters and matching words appear
-type GameMode = "copy" | "recall" | "dictionary";
+type GameMode = "copy" | "recall" | "meaning" | "quiz" | "dictionary";
+
+// How keystrokes become Hangul:
+// - "ime": the operating system's Korean IME composes syllables
+// - "dubeolsik": the built-in 2-beolsik automaton maps raw QWERTY keys
+type InputMethod = "ime" | "dubeolsik";
 
 // Filters for the extended vocabulary dataset.
 type ComplexityFilter = "all" | "A" | "B" | "C" | "D";
@@ -49,6 +145,11 @@ type ClassificationFilter =
 // Small delay before automatically moving to the next word
 const NEXT_WORD_DELAY_MS = 500;
 
+// Decks, custom words, meaning corrections and merging guest progress need
+// Supabase; without it the local repository (lib/progressRepository.ts)
+// keeps accounts and progress in this browser
+const CLOUD_FEATURES = progressRepository.kind === "supabase";
+
 const FREQUENCY_BANDS: {
   id: FrequencyBandId;
   label: string;
@@ -71,6 +172,22 @@ const FREQUENCY_BANDS: {
   { id: "5001-6000", label: "5001–6000", min: 5001, max: 6000 },
 ];
 
+// Recall Mode hints, revealed progressively with Alt+1 … Alt+4.
+// Each revealed level lowers the score for the word.
+const HINT_LABELS = ["Length", "초성", "First syllable", "Hanja"];
+const HINT_SCORE_FACTORS = [1, 0.75, 0.5, 0.25, 0.25];
+
+// m:ss for the sprint countdown
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
+// Quiz Mode: recognizing a word is easier than recalling it, so a correct
+// pick counts as a "hard" recall and scores less than a typed answer
+const QUIZ_SCORE_FACTOR = 0.5;
+const QUIZ_FEEDBACK_MS = { correct: 700, wrong: 1800 };
+
 const COMPLEXITY_SEQUENCE: ComplexityFilter[] = ["A", "B", "C", "D"];
 const FREQUENCY_SEQUENCE: FrequencyBandId[] = [
   "1-500",
@@ -83,14 +200,18 @@ const FREQUENCY_SEQUENCE: FrequencyBandId[] = [
   "5001-6000",
 ];
 
-// Helpers to avoid counting IME composition steps (like typing ㄱ on the way to 것)
-// as errors. We treat Hangul Jamo characters as "in progress" when the target
-// is a full Hangul syllable.
-const isHangulSyllable = (ch: string): boolean =>
-  ch >= "\uAC00" && ch <= "\uD7AF";
-
-const isHangulJamo = (ch: string): boolean =>
-  (ch >= "\u3130" && ch <= "\u318F") || (ch >= "\u1100" && ch <= "\u11FF");
+// Level a word belongs to (same numbering as the Level selector), or null
+// when its frequency rank is outside the level bands
+function levelForWord(word: Word): number | null {
+  const cIndex = COMPLEXITY_SEQUENCE.indexOf((word.complexity ?? "D") as ComplexityFilter);
+  const fIndex = FREQUENCY_SEQUENCE.findIndex((id) => {
+    const band = FREQUENCY_BANDS.find((b) => b.id === id);
+    return band !== undefined && word.frequency != null &&
+      word.frequency >= band.min && word.frequency <= band.max;
+  });
+  if (cIndex === -1 || fIndex === -1) return null;
+  return cIndex * FREQUENCY_SEQUENCE.length + fIndex + 1;
+}
 
 // Presentational component that renders the Korean word with
 // per-letter highlighting and current-letter underline.
@@ -104,14 +225,18 @@ function KoreanWordDisplay({
   mode: GameMode;
 }) {
   const chars = word.split("");
+  const grades = gradeInput(typed, word);
 
   return (
     <div className="flex justify-center gap-1 text-3xl md:text-4xl font-semibold tracking-wide">
       {chars.map((char, idx) => {
         const typedChar = typed[idx];
+        const grade = grades[idx];
         const isCurrent = idx === typed.length && typed.length < chars.length;
-        const isCorrect = typedChar !== undefined && typedChar === char;
-        const isIncorrect = typedChar !== undefined && typedChar !== char;
+        const isCorrect = grade === "correct";
+        const isIncorrect = grade === "incorrect";
+        // The syllable being composed right now (e.g. 거 on the way to 것)
+        const isComposing = grade === "composing";
 
         // In copy mode we always show the correct Korean character so the
         // user can visually copy it. In recall mode we only show what the
@@ -132,6 +257,7 @@ function KoreanWordDisplay({
               "px-1 transition-colors duration-150",
               isCorrect ? "text-green-500" : "",
               isIncorrect ? "text-red-500" : "",
+              isComposing ? "text-sky-300" : "",
               isCurrent ? "underline decoration-2 decoration-sky-400" : "",
             ]
               .filter(Boolean)
@@ -156,7 +282,19 @@ export default function TypingGame() {
   const [mode, setMode] = useState<GameMode>("copy");
   const [justCompleted, setJustCompleted] = useState(false);
   const [skipNotice, setSkipNotice] = useState(false);
-  const [forcedIndex, setForcedIndex] = useState<number | null>(null);
+  // Saved progress whose legacy word id couldn't be matched to the word list
+  const [unmatchedWordIds, setUnmatchedWordIds] = useState<string[]>([]);
+  // What was moved from guest progress into the account on sign-in
+  const [guestMergeSummary, setGuestMergeSummary] = useState<GuestMergeSummary | null>(null);
+  // Guest progress is saved to IndexedDB only once it has been loaded, so
+  // the empty initial state never overwrites it
+  const guestLoadedRef = useRef(false);
+  // Stats are saved to the account only once its saved stats have been
+  // loaded (after the guest merge), so guest stats still in state never
+  // overwrite them
+  const statsLoadedRef = useRef(false);
+  // Writes waiting in the offline queue (see syncOutbox in lib/progressRepository.ts)
+  const [syncStatus, setSyncStatus] = useState<OutboxStatus>(() => syncOutbox.status());
   const [complexityFilter, setComplexityFilter] =
     useState<ComplexityFilter>("A");
   const [frequencyBandId, setFrequencyBandId] =
@@ -166,6 +304,21 @@ export default function TypingGame() {
 
   // Dictionary Mode Search
   const [dictionarySearch, setDictionarySearch] = useState("");
+  // Dictionary scope: the filtered level or the whole catalog
+  const [dictionaryScope, setDictionaryScope] = useState<"level" | "all">("all");
+  // Word opened in the dictionary detail panel
+  const [selectedWord, setSelectedWord] = useState<Word | null>(null);
+  // Word picked with "Practice now": shown next regardless of filters
+  const [pinnedWord, setPinnedWord] = useState<Word | null>(null);
+  // The whole catalog; replaced (same words, new array) once approved
+  // meaning corrections are applied, so derived data is rebuilt
+  const [catalog, setCatalog] = useState<Word[]>(allWords);
+  // Dictionary search index over the whole catalog
+  const searchIndex = useMemo(() => buildSearchIndex(catalog), [catalog]);
+  const dictionaryMatches = useMemo(
+    () => searchWords(searchIndex, dictionarySearch),
+    [searchIndex, dictionarySearch]
+  );
 
   // Accuracy and scoring state
   const [totalAttempts, setTotalAttempts] = useState(0);
@@ -177,6 +330,45 @@ export default function TypingGame() {
     useState(false);
   const [maxLevelUnlocked, setMaxLevelUnlocked] = useState(1);
 
+  // ============================================================================
+  // Typing speed (타수) — per-keystroke timestamps for the current word and
+  // per-word speeds for this session (persisted to typing_sessions)
+  // ============================================================================
+  const [typingSessionId] = useState(() => crypto.randomUUID());
+  const [typingSessionStartedAt] = useState(() => new Date().toISOString());
+  const [wordSpeeds, setWordSpeeds] = useState<WordSpeed[]>([]);
+  const [lastWordSpeed, setLastWordSpeed] = useState<WordSpeed | null>(null);
+  const [liveStrokesPerMinute, setLiveStrokesPerMinute] = useState(0);
+  const [previousTypingSession, setPreviousTypingSession] =
+    useState<TypingSessionStats | null>(null);
+  const wordShownAtRef = useRef(0);
+  const keystrokesRef = useRef<KeystrokeSample[]>([]);
+
+  // Input method: OS IME or the built-in automaton (auto-selected when Latin
+  // letters show up while the target is Hangul)
+  const [inputMethod, setInputMethod] = useState<InputMethod>("ime");
+  const [inputMethodNotice, setInputMethodNotice] = useState(false);
+  const inputMethodNoticeTimeoutRef = useRef<number | null>(null);
+
+  // On-screen 2-beolsik keyboard (Copy Mode helper for beginners)
+  const [showKeyboard, setShowKeyboard] = useState(false);
+  const [wrongKeyCode, setWrongKeyCode] = useState<string | null>(null);
+  const lastKeyCodeRef = useRef<string | null>(null);
+  const wrongKeyTimeoutRef = useRef<number | null>(null);
+
+  // Quiz Mode: which side is the prompt, the picked option while its
+  // feedback is shown, and a round counter that reshuffles repeated words
+  const [quizPrompt, setQuizPrompt] = useState<QuizPrompt>("korean");
+  const [quizAnswer, setQuizAnswer] = useState<{
+    wordId: string;
+    index: number;
+  } | null>(null);
+  const [quizRound, setQuizRound] = useState(0);
+  const quizFeedbackTimeoutRef = useRef<number | null>(null);
+
+  // Session speed summary (averages weighted by typing time)
+  const sessionSpeed = useMemo(() => summarizeSession(wordSpeeds), [wordSpeeds]);
+
   // ============================================================================
   // Recall Mode: Learned/Failed Words Tracking (Persisted in Supabase)
   // ============================================================================
@@ -185,9 +377,47 @@ export default function TypingGame() {
   const [failedWordsRequeueCount, setFailedWordsRequeueCount] = useState<
     Map<string, number>
   >(new Map());
+  // Spaced-repetition state per word id (SM-2), persisted in word_reviews.
+  // `srsNow` is refreshed on every grade and once a minute so due words appear.
+  const [wordReviews, setWordReviews] = useState<Map<string, SrsState>>(
+    new Map()
+  );
+  // Meaning Mode (Korean -> English) is scheduled separately from Recall Mode
+  const [meaningReviews, setMeaningReviews] = useState<Map<string, SrsState>>(
+    new Map()
+  );
+  const [srsNow, setSrsNow] = useState(() => Date.now());
+  // Recall Mode hints revealed for the current word (0 = none)
+  const [hints, setHints] = useState<{ wordId: string; level: number }>({
+    wordId: "",
+    level: 0,
+  });
+
+  // Last wrong Recall/Meaning Mode answer, shown with the correct answer
+  // (and a jamo-level diff for Korean) until dismissed
+  const [recallFailure, setRecallFailure] = useState<{
+    word: Word;
+    attempt: string;
+    direction: ReviewDirection;
+  } | null>(null);
   const [showTabsUI, setShowTabsUI] = useState(false);
   const [activeTab, setActiveTab] = useState<"learned" | "to-review">("learned");
 
+  // ============================================================================
+  // Timed Sprint (Copy/Recall Mode): armed run, clock and results
+  // ============================================================================
+  const [sprintDuration, setSprintDuration] = useState<SprintDuration | null>(null);
+  const [sprint, setSprint] = useState<SprintRun | null>(null);
+  const [sprintNow, setSprintNow] = useState(() => Date.now());
+  const [sprintResult, setSprintResult] = useState<{
+    result: SprintResult;
+    previousBest: SprintResult | null;
+  } | null>(null);
+  // Personal bests keyed by sprintBestKey(mode, duration, level)
+  const [sprintBests, setSprintBests] = useState<Map<string, SprintResult>>(
+    new Map()
+  );
+
   // ============================================================================
   // Supabase Auth State
   // ============================================================================
@@ -212,11 +442,28 @@ export default function TypingGame() {
   const [debugCorrectedMeaning, setDebugCorrectedMeaning] = useState("");
   const [debugNotes, setDebugNotes] = useState("");
   const [isSubmittingDebug, setIsSubmittingDebug] = useState(false);
+  // Which word field the report is about (meaning by default)
+  const [debugField, setDebugField] = useState<ReportField>("en");
+  // The user's own reports, for "My reports" and duplicate detection
+  const [myReports, setMyReports] = useState<MeaningReport[]>([]);
+  const [showMyReports, setShowMyReports] = useState(false);
+  // Custom decks (DECKS_SETUP.sql); the active deck replaces the filters
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
+  const [showDecks, setShowDecks] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Word list being exported, and where the export was opened
+  const [exportSource, setExportSource] = useState<{
+    origin: "tabs" | "decks";
+    title: string;
+    fileLabel: string;
+    rows: ExportRow[];
+  } | null>(null);
 
   // Build the word list from the extended dataset and the current filters.
   // NOTE: In Recall Mode, we do NOT exclude learned words from this list.
   // Instead, we manage which words to show via a separate mechanism.
-  const wordList: Word[] = useMemo(() => {
+  const filteredWordList: Word[] = useMemo(() => {
     const band = FREQUENCY_BANDS.find((b) => b.id === frequencyBandId);
 
     const filtered = allWords.filter((w) => {
@@ -252,37 +499,85 @@ export default function TypingGame() {
     return filtered;
   }, [complexityFilter, frequencyBandId, classificationFilter]);
 
-  // Get next valid word (skip learned words in Recall Mode)
+  // Practicing a deck uses its words, in deck order, instead of the filters
+  const activeDeck = decks.find((d) => d.id === activeDeckId) ?? null;
+  const wordList: Word[] = useMemo(
+    () => (activeDeck ? resolveWordIds(activeDeck.word_ids).words : filteredWordList),
+    [activeDeck, filteredWordList]
+  );
+
+  // Recall and Meaning Mode each have their own schedule and learned/review
+  // lists; Quiz Mode answers feed the Recall Mode schedule
+  const isReviewMode = mode === "recall" || mode === "meaning" || mode === "quiz";
+  const activeReviews = mode === "meaning" ? meaningReviews : wordReviews;
+
+  // Meaning Mode lists are derived from its schedule: words with a successful
+  // streak are learned, the rest need review
+  const meaningLearnedWords = useMemo(
+    () => allWords.filter((w) => (meaningReviews.get(w.id)?.repetitions ?? 0) > 0),
+    [meaningReviews]
+  );
+  const meaningReviewWords = useMemo(
+    () =>
+      allWords.filter((w) => {
+        const state = meaningReviews.get(w.id);
+        return state !== undefined && state.repetitions === 0;
+      }),
+    [meaningReviews]
+  );
+  const shownLearnedWords = mode === "meaning" ? meaningLearnedWords : learnedWords;
+  const shownReviewWords = mode === "meaning" ? meaningReviewWords : reviewWords;
+  const shownTabWords = activeTab === "learned" ? shownLearnedWords : shownReviewWords;
+
+  // Get next valid word. In Recall/Meaning Mode, words due for review come first
+  // (most overdue first), then words that were never reviewed; words that are
+  // scheduled for later are skipped.
   const getValidCurrentWord = (): Word | undefined => {
+    if (pinnedWord && mode !== "dictionary") return pinnedWord;
+
     if (wordList.length === 0) {
       console.warn('[Game] No words available in current filter set');
       return undefined;
     }
 
-    // If a forced index was set (Skip), return that immediately for one render.
-    if (forcedIndex !== null && typeof forcedIndex === 'number') {
-      const forced = wordList[forcedIndex];
-      if (forced) {
-        console.log('[GetValidWord] Using forced index from skip:', forcedIndex, forced.korean);
-        return forced;
+    if (isReviewMode) {
+      let mostOverdue: Word | undefined;
+      let mostOverdueAt = Number.POSITIVE_INFINITY;
+      for (const word of wordList) {
+        const state = activeReviews.get(word.id);
+        if (state && isDue(state, srsNow)) {
+          const dueAt = new Date(state.due_at).getTime();
+          if (dueAt < mostOverdueAt) {
+            mostOverdue = word;
+            mostOverdueAt = dueAt;
+          }
+        }
+      }
+      if (mostOverdue) {
+        console.log(`[GetValidWord] Due for review: ${mostOverdue.korean}`);
+        return mostOverdue;
       }
     }
 
     // Ensure currentIndex is within bounds
     const safeIndex = currentIndex < wordList.length ? currentIndex : currentIndex % wordList.length;
 
-    const learnedIds = new Set(learnedWords.map((w) => w.id));
+    // Learned words without a schedule (older data) still count as "not new"
+    const learnedIds = new Set(
+      mode !== "meaning" ? learnedWords.map((w) => w.id) : []
+    );
     let idx = safeIndex;
     let attempts = 0;
     const maxAttempts = wordList.length;
 
     console.log(
-      `[GetValidWord] currentIndex=${currentIndex}, safeIndex=${safeIndex}, learned=${learnedWords.length}, pool=${wordList.length}`
+      `[GetValidWord] currentIndex=${currentIndex}, safeIndex=${safeIndex}, scheduled=${activeReviews.size}, pool=${wordList.length}`
     );
 
     while (attempts < maxAttempts) {
       const word = wordList[idx % wordList.length];
-      if (mode === "copy" || !learnedIds.has(word.id)) {
+      const isNew = !activeReviews.has(word.id) && !learnedIds.has(word.id);
+      if (mode === "copy" || isNew) {
         console.log(`[GetValidWord] Found valid word: ${word.korean} at index ${idx % wordList.length}`);
         return word;
       }
@@ -296,14 +591,92 @@ export default function TypingGame() {
 
   const currentWord: Word | undefined = getValidCurrentWord();
 
-  // Clear forcedIndex after it was consumed so subsequent renders follow normal rules
+  // Dictionary results limited to the current level unless "All words" is picked
+  const dictionaryResults = useMemo(() => {
+    if (dictionaryScope === "all") return dictionaryMatches;
+    const levelIds = new Set(wordList.map((w) => w.id));
+    return dictionaryMatches.filter((w) => levelIds.has(w.id));
+  }, [dictionaryMatches, dictionaryScope, wordList]);
+
+  // Quiz Mode question for the current word. Options are shuffled with a
+  // seeded random source so they stay put across re-renders.
+  const quizQuestion = useMemo(
+    () =>
+      mode === "quiz" && currentWord
+        ? buildQuizQuestion(
+            currentWord,
+            allWords,
+            quizPrompt,
+            seededRandom(`${currentWord.id}:${quizRound}`)
+          )
+        : null,
+    [mode, currentWord, quizPrompt, quizRound]
+  );
+
+  const hintLevel =
+    currentWord && hints.wordId === currentWord.id ? hints.level : 0;
+  // Hanja is only offered as a hint when the word has one
+  const maxHintLevel = currentWord?.hanja ? 4 : 3;
+
+  // Restart keystroke timing whenever a new word is shown
   useEffect(() => {
-    if (forcedIndex !== null) {
-      const t = window.setTimeout(() => setForcedIndex(null), 50);
-      return () => window.clearTimeout(t);
-    }
-    return undefined;
-  }, [forcedIndex]);
+    wordShownAtRef.current = performance.now();
+    keystrokesRef.current = [];
+  }, [currentWord?.id, mode]);
+
+  // Sprint clock: tick while a run is in progress and finish it at zero
+  useEffect(() => {
+    if (!sprint || sprint.startedAt === null) return;
+    const t = window.setInterval(() => {
+      const now = Date.now();
+      setSprintNow(now);
+      if (sprintRemainingMs(sprint, now) > 0) return;
+
+      const result = finishSprint(sprint, now);
+      const key = sprintBestKey(result.mode, result.durationSeconds, result.level);
+      const previousBest = sprintBests.get(key) ?? null;
+      console.log('[Sprint] Finished:', result);
+      setSprint(null);
+      setSprintResult({ result, previousBest });
+      if (isBetterSprint(result, previousBest)) {
+        setSprintBests((prev) => new Map(prev).set(key, result));
+      }
+      if (user) {
+        syncOutbox.submit(user.id, { kind: "sprint_run", id: crypto.randomUUID(), result });
+      }
+    }, 250);
+    return () => window.clearInterval(t);
+  }, [sprint, sprintBests, user]);
+
+  // Follow the offline write queue, and send it as soon as the browser is
+  // back online instead of waiting for the next backoff retry
+  useEffect(() => {
+    const unsubscribe = syncOutbox.subscribe(setSyncStatus);
+    const handleOnline = () => syncOutbox.flush(true);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  // Apply approved meaning corrections on top of the bundled dataset
+  useEffect(() => {
+    if (!CLOUD_FEATURES) return;
+    fetchMeaningCorrections().then(({ data }) => {
+      const changed = applyMeaningCorrections(data);
+      if (changed > 0) {
+        console.log('[TypingGame] Applied meaning corrections:', changed);
+        setCatalog([...allWords]);
+      }
+    });
+  }, []);
+
+  // Refresh the SRS clock once a minute so words become due while practicing
+  useEffect(() => {
+    const t = window.setInterval(() => setSrsNow(Date.now()), 60_000);
+    return () => window.clearInterval(t);
+  }, []);
 
   // Derive current "level" from complexity * frequency band, e.g.
   // Level 1: A + 1–500, Level 2: A + 501–1000, etc.
@@ -357,6 +730,15 @@ export default function TypingGame() {
       if (saveTimeoutRef.current !== null) {
         window.clearTimeout(saveTimeoutRef.current);
       }
+      if (wrongKeyTimeoutRef.current !== null) {
+        window.clearTimeout(wrongKeyTimeoutRef.current);
+      }
+      if (quizFeedbackTimeoutRef.current !== null) {
+        window.clearTimeout(quizFeedbackTimeoutRef.current);
+      }
+      if (inputMethodNoticeTimeoutRef.current !== null) {
+        window.clearTimeout(inputMethodNoticeTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -367,14 +749,36 @@ export default function TypingGame() {
     console.log('[TypingGame] Setting up auth listener');
     
     // Listen to auth state changes (handles login, logout, session persist)
-    const unsubscribe = onAuthStateChange(async (session) => {
+    const unsubscribe = progressRepository.onAuthStateChange(async (session) => {
       console.log('[TypingGame] Auth state changed, session:', session?.user?.email || 'no user');
       
       if (session?.user) {
+        guestLoadedRef.current = false;
+        statsLoadedRef.current = false;
         setUser(session.user);
 
+        // Remap progress saved under position-based word ids before loading it
+        const migration = CLOUD_FEATURES
+          ? await migrateLegacyWordIds(session.user.id)
+          : { migrated: 0, unmatched: [] };
+        if (migration.unmatched.length > 0) {
+          console.warn('[TypingGame] Saved words not found in the word list:', migration.unmatched);
+        }
+        const unmatchedIds = new Set(migration.unmatched.map((u) => u.word_id));
+
+        // Move progress made while signed out into the account (kept
+        // locally if the merge fails, to be retried on the next sign-in)
+        const guest = CLOUD_FEATURES ? await loadGuestProgress() : null;
+        if (hasGuestProgress(guest)) {
+          const { data: merged, error: mergeError } = await mergeGuestProgress(session.user.id, guest);
+          if (merged && !mergeError) {
+            await clearGuestProgress();
+            setGuestMergeSummary(merged);
+          }
+        }
+
         // Fetch user's saved stats
-        const { data: userStats, error: statsError } = await fetchUserStats(
+        const { data: userStats, error: statsError } = await progressRepository.fetchUserStats(
           session.user.id
         );
 
@@ -394,44 +798,115 @@ export default function TypingGame() {
             setTotalAttempts(userStats.total_words_completed);
           }
         }
+        if (!statsError) statsLoadedRef.current = true;
 
-        // Fetch learned words from Supabase
-        const { data: learnedData } = await fetchLearnedWords(session.user.id);
-        if (learnedData && learnedData.length > 0) {
-          const learned = learnedData.map((lw) => lw.word_data);
-          setLearnedWords(learned);
-          console.log('[TypingGame] Loaded learned words:', learnedData.length);
-          
-          // Fetch review words (failed) from Supabase
-          const { data: reviewData } = await fetchReviewWords(session.user.id);
-          if (reviewData && reviewData.length > 0) {
-            // Filter out any review words that are already in learned_words
-            const learnedIds = new Set(learned.map((w) => w.id));
-            const filteredReview = reviewData
-              .map((rw) => rw.word_data)
-              .filter((w) => !learnedIds.has(w.id));
-            
-            setReviewWords(filteredReview);
-            
-            const removed = reviewData.length - filteredReview.length;
-            if (removed > 0) {
-              console.log(
-                `[TypingGame] Cleaned up ${removed} duplicate word(s) from review list (already in learned)`
-              );
-            }
-            console.log('[TypingGame] Loaded review words:', filteredReview.length);
-          }
-        } else {
-          // If no learned words, just load review words as-is
-          const { data: reviewData } = await fetchReviewWords(session.user.id);
-          if (reviewData && reviewData.length > 0) {
-            setReviewWords(reviewData.map((rw) => rw.word_data));
-            console.log('[TypingGame] Loaded review words:', reviewData.length);
-          }
+        // Most recent earlier typing session, shown next to the live speed
+        const { data: typingSessions } = await progressRepository.fetchTypingSessions(session.user.id, 2);
+        setPreviousTypingSession(
+          typingSessions.find((ts) => ts.id !== typingSessionId) ?? null
+        );
+
+        // Sprint personal bests
+        const { data: bests } = await progressRepository.fetchSprintBests(session.user.id);
+        setSprintBests(bests);
+
+        // Own meaning reports ("My reports")
+        const { data: reports } = await progressRepository.fetchMyReports(session.user.id);
+        setMyReports(reports);
+
+        // Imported custom words, registered before decks and progress
+        // rows are resolved so those can refer to them
+        if (CLOUD_FEATURES) {
+          const { data: customWords } = await fetchCustomWords(session.user.id);
+          registerCustomWords(customWords);
+        }
+
+        // Send writes queued while offline (their words resolve now)
+        syncOutbox.setUser(session.user.id);
+
+        // Custom decks
+        if (CLOUD_FEATURES) {
+          const { data: userDecks } = await fetchDecks(session.user.id);
+          setDecks(userDecks);
+        }
+
+        // Spaced-repetition schedule
+        // (schedules for words no longer in the word list are ignored)
+        const { data: allReviewStates } = await progressRepository.fetchWordReviews(session.user.id);
+        const reviewStates = allReviewStates.filter((r) => wordsById.has(r.word_id));
+        setWordReviews(
+          new Map(
+            reviewStates
+              .filter((r) => (r.direction ?? "recall") === "recall")
+              .map((r) => [r.word_id, r])
+          )
+        );
+        setMeaningReviews(
+          new Map(
+            reviewStates
+              .filter((r) => r.direction === "meaning")
+              .map((r) => [r.word_id, r])
+          )
+        );
+
+        // Fetch learned/review word ids from Supabase and resolve them
+        // against the current word list (ids no longer in it are skipped)
+        const { data: learnedData } = await progressRepository.fetchLearnedWords(session.user.id);
+        const { data: reviewData } = await progressRepository.fetchReviewWords(session.user.id);
+        const learned = resolveWordIds(learnedData.map((lw) => lw.word_id));
+        const review = resolveWordIds(reviewData.map((rw) => rw.word_id));
+
+        setLearnedWords(learned.words);
+        console.log('[TypingGame] Loaded learned words:', learned.words.length);
+
+        // Filter out any review words that are already in learned_words
+        const learnedIds = new Set(learned.words.map((w) => w.id));
+        const filteredReview = review.words.filter((w) => !learnedIds.has(w.id));
+        setReviewWords(filteredReview);
+
+        const removed = review.words.length - filteredReview.length;
+        if (removed > 0) {
+          console.log(
+            `[TypingGame] Cleaned up ${removed} duplicate word(s) from review list (already in learned)`
+          );
+        }
+        console.log('[TypingGame] Loaded review words:', filteredReview.length);
+
+        const orphaned = [...learned.orphaned, ...review.orphaned];
+        if (orphaned.length > 0) {
+          console.warn('[TypingGame] Saved word ids missing from the word list:', orphaned);
         }
+        setUnmatchedWordIds(Array.from(new Set([...unmatchedIds, ...orphaned])));
       } else {
         console.log('[TypingGame] No user session, clearing state');
         setUser(null);
+        syncOutbox.setUser(null);
+        setMyReports([]);
+        setShowMyReports(false);
+        setDecks([]);
+        setActiveDeckId(null);
+        setShowDecks(false);
+        setShowImport(false);
+        setExportSource(null);
+        registerCustomWords([]);
+
+        // Signed out: continue with the progress saved on this device
+        const guest = await loadGuestProgress();
+        setScore(guest?.stats.score ?? 0);
+        setMaxStreak(guest?.stats.highest_streak ?? 0);
+        setTotalAttempts(guest?.stats.total_words_completed ?? 0);
+        setCorrectAnswers(guest?.stats.correct_answers ?? 0);
+        setMaxLevelUnlocked(guest?.stats.max_level_unlocked ?? 1);
+        setLearnedWords(resolveWordIds(guest?.learned.map((e) => e.word_id) ?? []).words);
+        setReviewWords(resolveWordIds(guest?.review.map((e) => e.word_id) ?? []).words);
+        const guestReviews = (guest?.reviews ?? []).filter((r) => wordsById.has(r.word_id));
+        setWordReviews(
+          new Map(guestReviews.filter((r) => r.direction === "recall").map((r) => [r.word_id, r]))
+        );
+        setMeaningReviews(
+          new Map(guestReviews.filter((r) => r.direction === "meaning").map((r) => [r.word_id, r]))
+        );
+        guestLoadedRef.current = true;
       }
 
       setIsAuthLoading(false);
@@ -439,7 +914,7 @@ export default function TypingGame() {
 
     // Cleanup listener on unmount
     return () => unsubscribe();
-  }, []);
+  }, [typingSessionId]);
 
   // ============================================================================
   // Auth handlers
@@ -452,7 +927,7 @@ export default function TypingGame() {
     }
 
     setIsSubmittingAuth(true);
-    const { data, error } = await signUp(authEmail, authPassword);
+    const { error } = await progressRepository.signUp(authEmail, authPassword);
     setIsSubmittingAuth(false);
 
     if (error) {
@@ -476,7 +951,7 @@ export default function TypingGame() {
     }
 
     setIsSubmittingAuth(true);
-    const { data, error } = await signIn(authEmail, authPassword);
+    const { error } = await progressRepository.signIn(authEmail, authPassword);
     setIsSubmittingAuth(false);
 
     if (error) {
@@ -493,7 +968,7 @@ export default function TypingGame() {
   };
 
   const handleLogout = async () => {
-    const { error } = await signOut();
+    const { error } = await progressRepository.signOut();
     if (error) {
       console.error('[TypingGame] Logout error:', error);
     } else {
@@ -516,40 +991,276 @@ export default function TypingGame() {
   // ============================================================================
   // Debug Handler: Report incorrect word meaning
   // ============================================================================
+  // The user's pending report for the same word and field, if any: submitting
+  // again updates it instead of adding a duplicate
+  const duplicateReport =
+    showDebugModal && currentWord
+      ? findPendingReport(myReports, currentWord.id, debugField)
+      : null;
+  const reportedFieldValue = currentWord ? currentWord[debugField] ?? "" : "";
+
+  const closeDebugModal = () => {
+    setShowDebugModal(false);
+    setDebugCorrectedMeaning("");
+    setDebugNotes("");
+    setDebugField("en");
+  };
+
   const handleReportIncorrectMeaning = async () => {
     if (!user || !currentWord) {
       console.error('[Debug] User or current word missing');
       return;
     }
 
-    if (!debugCorrectedMeaning.trim()) {
-      alert('Please enter the correct meaning');
+    const correctedValue = debugCorrectedMeaning.trim();
+    if (!correctedValue) {
+      alert('Please enter the correct value');
+      return;
+    }
+    if (correctedValue.toLowerCase() === reportedFieldValue.trim().toLowerCase()) {
+      alert('That is already the current value.');
       return;
     }
 
     setIsSubmittingDebug(true);
 
-    const { error } = await reportIncorrectMeaning(
+    const { data, error, queued } = await syncOutbox.submit<MeaningReport>(
       user.id,
-      currentWord.id,
-      currentWord.korean,
-      currentWord.en,
-      debugCorrectedMeaning,
-      debugNotes
+      duplicateReport
+        ? {
+            kind: "report_update",
+            report_id: duplicateReport.id,
+            corrected_value: correctedValue,
+            notes: debugNotes,
+          }
+        : {
+            kind: "report",
+            id: crypto.randomUUID(),
+            word_id: currentWord.id,
+            korean: currentWord.korean,
+            current_value: reportedFieldValue,
+            corrected_value: correctedValue,
+            notes: debugNotes,
+            field: debugField,
+          }
     );
 
     setIsSubmittingDebug(false);
 
-    if (error) {
+    if (queued) {
+      console.log('[Debug] Report queued until Supabase is reachable');
+      alert('You seem to be offline. Your report was saved and will be sent when the connection is back.');
+      closeDebugModal();
+    } else if (error || !data) {
       console.error('[Debug] Error reporting meaning:', error);
       alert('Failed to report. Make sure the reported_meanings table is created.');
     } else {
       console.log('[Debug] Meaning reported successfully');
-      alert('Thank you! Report submitted.');
-      setShowDebugModal(false);
-      setDebugCorrectedMeaning("");
-      setDebugNotes("");
+      setMyReports((prev) => [data, ...prev.filter((r) => r.id !== data.id)]);
+      alert(
+        duplicateReport
+          ? 'Your report was updated. You can follow it under "My reports".'
+          : 'Thank you! You can follow your report under "My reports".'
+      );
+      closeDebugModal();
+    }
+  };
+
+  // "My reports": edit or withdraw a pending report. On failure (e.g. it was
+  // reviewed in the meantime) the list is reloaded to show its real status.
+  const refreshMyReports = async () => {
+    if (!user) return;
+    const { data } = await progressRepository.fetchMyReports(user.id);
+    setMyReports(data);
+  };
+
+  const handleSaveMyReport = async (report: MeaningReport, correctedValue: string, notes: string) => {
+    if (!user) return false;
+    const { data, error } = await progressRepository.updateMyReport(user.id, report.id, correctedValue, notes);
+    if (error || !data) {
+      alert('Could not update the report. It may have been reviewed already.');
+      await refreshMyReports();
+      return false;
+    }
+    setMyReports((prev) => prev.map((r) => (r.id === data.id ? data : r)));
+    return true;
+  };
+
+  const handleWithdrawMyReport = async (report: MeaningReport) => {
+    if (!user) return;
+    const { error } = await progressRepository.withdrawMyReport(user.id, report.id);
+    if (error) alert('Could not withdraw the report.');
+    await refreshMyReports();
+  };
+
+  // ============================================================================
+  // Custom decks
+  // ============================================================================
+  const refreshDecks = async () => {
+    if (!user) return;
+    const { data } = await fetchDecks(user.id);
+    setDecks(data);
+  };
+
+  const handleCreateDeck = async (name: string) => {
+    if (!user) return false;
+    if (decks.some((d) => d.name.toLowerCase() === name.trim().toLowerCase())) {
+      alert('You already have a deck with that name.');
+      return false;
+    }
+    const { data, error } = await createDeck(user.id, name);
+    if (error || !data) {
+      alert('Could not create the deck. Make sure the decks table is created.');
+      return false;
+    }
+    setDecks((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return true;
+  };
+
+  const handleRenameDeck = async (deck: Deck, name: string) => {
+    if (!user) return false;
+    const { error } = await updateDeck(user.id, deck.id, { name });
+    if (error) {
+      alert('Could not rename the deck. Deck names must be unique.');
+      return false;
+    }
+    setDecks((prev) =>
+      prev
+        .map((d) => (d.id === deck.id ? { ...d, name: name.trim() } : d))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return true;
+  };
+
+  const handleDeleteDeck = async (deck: Deck) => {
+    if (!user) return;
+    const { error } = await deleteDeck(user.id, deck.id);
+    if (error) {
+      alert('Could not delete the deck.');
+      return;
     }
+    setDecks((prev) => prev.filter((d) => d.id !== deck.id));
+    if (activeDeckId === deck.id) setActiveDeckId(null);
+  };
+
+  // Added words go to the end of the deck; the local copy is updated first
+  // and reloaded from Supabase if the save fails
+  const handleAddToDeck = async (deckId: string, wordIds: string[]) => {
+    const deck = decks.find((d) => d.id === deckId);
+    if (!user || !deck) return;
+    const inDeck = new Set(deck.word_ids);
+    const newIds = wordIds.filter((id) => !inDeck.has(id));
+    if (newIds.length === 0) return;
+
+    setDecks((prev) =>
+      prev.map((d) => (d.id === deckId ? { ...d, word_ids: [...d.word_ids, ...newIds] } : d))
+    );
+    const { error } = await addWordsToDeck(user.id, deckId, newIds, deck.word_ids.length);
+    if (error) {
+      alert('Could not add to the deck.');
+      await refreshDecks();
+    }
+  };
+
+  const handleRemoveFromDeck = async (deck: Deck, wordId: string) => {
+    if (!user) return;
+    setDecks((prev) =>
+      prev.map((d) =>
+        d.id === deck.id ? { ...d, word_ids: d.word_ids.filter((id) => id !== wordId) } : d
+      )
+    );
+    const { error } = await removeWordFromDeck(user.id, deck.id, wordId);
+    if (error) {
+      alert('Could not remove the word from the deck.');
+      await refreshDecks();
+    }
+  };
+
+  // Save an import as a new deck: custom words first, so the deck's ids
+  // resolve, then the deck in file order
+  const handleImportDeck = async (name: string, preview: ImportPreview) => {
+    if (!user) return false;
+
+    const { error: customError } = await saveCustomWords(user.id, preview.customWords);
+    if (customError) {
+      alert('Could not save the new words. Make sure the custom_words table is created.');
+      return false;
+    }
+    if (preview.customWords.length > 0) {
+      const { data: customWords } = await fetchCustomWords(user.id);
+      registerCustomWords(customWords);
+    }
+
+    const { data: deck, error } = await createDeck(user.id, name);
+    if (error || !deck) {
+      alert('Could not create the deck. Make sure the decks table is created.');
+      return false;
+    }
+    const wordIds = preview.words.map((w) => w.id);
+    const { error: addError } = await addWordsToDeck(user.id, deck.id, wordIds, 0);
+    if (addError) {
+      alert('The deck was created but its words could not be saved.');
+    }
+
+    setDecks((prev) =>
+      [...prev, { ...deck, word_ids: addError ? [] : wordIds }].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    );
+    console.log(
+      `[Import] Saved deck "${name}": ${wordIds.length} words (${preview.customWords.length} new)`
+    );
+    return true;
+  };
+
+  // Export the open Learned/To Review tab. Signed-in users' rows carry the
+  // learned/review timestamps and fail counts (Recall Mode lists only; the
+  // Meaning Mode lists come from its schedule).
+  const handleExportTab = async () => {
+    const isLearned = activeTab === "learned";
+    const words = shownTabWords;
+    let rows: ExportRow[] = words.map((word) => ({ word }));
+
+    if (user && mode !== "meaning") {
+      if (isLearned) {
+        const { data } = await progressRepository.fetchLearnedWords(user.id);
+        const byId = new Map(data.map((lw) => [lw.word_id, lw]));
+        rows = words.map((word) => ({ word, learned_at: byId.get(word.id)?.learned_at ?? null }));
+      } else {
+        const { data } = await progressRepository.fetchReviewWords(user.id);
+        const byId = new Map(data.map((rw) => [rw.word_id, rw]));
+        rows = words.map((word) => ({
+          word,
+          failed_count: byId.get(word.id)?.failed_count ?? null,
+          created_at: byId.get(word.id)?.created_at ?? null,
+        }));
+      }
+    }
+
+    setExportSource({
+      origin: "tabs",
+      title: isLearned ? "learned words" : "words to review",
+      fileLabel: isLearned ? "learned" : "to-review",
+      rows,
+    });
+  };
+
+  const handleExportDeck = (deck: Deck) => {
+    setExportSource({
+      origin: "decks",
+      title: `deck "${deck.name}"`,
+      fileLabel: `deck-${deck.name}`,
+      rows: resolveWordIds(deck.word_ids).words.map((word) => ({ word })),
+    });
+  };
+
+  // Practice a deck instead of the filters (null goes back to the filters).
+  // From Dictionary Mode this switches to Copy Mode, like "Practice now".
+  const handlePracticeDeck = (deck: Deck | null) => {
+    console.log('[Decks] Practice:', deck?.name ?? '(filters)');
+    setActiveDeckId(deck?.id ?? null);
+    setPinnedWord(null);
+    if (deck && mode === "dictionary") handleModeChange("copy");
   };
 
   // ============================================================================
@@ -560,6 +1271,10 @@ export default function TypingGame() {
       console.log('[TypingGame] No user logged in, skipping save');
       return;
     }
+    if (!statsLoadedRef.current) {
+      console.log('[TypingGame] Saved stats not loaded yet, skipping save');
+      return;
+    }
 
     // Debounce saves to avoid too many requests
     if (saveTimeoutRef.current) {
@@ -578,20 +1293,41 @@ export default function TypingGame() {
         current_level: currentLevel ?? maxLevelUnlocked,
       });
 
-      const { error } = await upsertUserStats(user.id, {
-        total_score: score,
-        highest_streak: maxStreak,
-        total_words_completed: totalAttempts,
-        accuracy: accuracy,
-        current_level: currentLevel ?? maxLevelUnlocked,
+      const { error, queued } = await syncOutbox.submit(user.id, {
+        kind: "user_stats",
+        stats: {
+          total_score: score,
+          highest_streak: maxStreak,
+          total_words_completed: totalAttempts,
+          accuracy: accuracy,
+          current_level: currentLevel ?? maxLevelUnlocked,
+        },
       });
 
       if (error) {
         console.error('[TypingGame] Error saving progress:', error?.message ?? error);
+      } else if (queued) {
+        console.log('[TypingGame] Progress queued until Supabase is reachable');
       } else {
         console.log('[TypingGame] Progress saved successfully');
       }
 
+      // Save this session's typing speed alongside the stats
+      if (sessionSpeed.wordsTimed > 0) {
+        await syncOutbox.submit(user.id, {
+          kind: "typing_session",
+          session: {
+            id: typingSessionId,
+            started_at: typingSessionStartedAt,
+            words_timed: sessionSpeed.wordsTimed,
+            avg_strokes_per_minute: sessionSpeed.avgStrokesPerMinute,
+            best_strokes_per_minute: sessionSpeed.bestStrokesPerMinute,
+            avg_syllables_per_minute: sessionSpeed.avgSyllablesPerMinute,
+            avg_time_to_first_key_ms: sessionSpeed.avgTimeToFirstKeyMs,
+          },
+        });
+      }
+
       saveTimeoutRef.current = null;
     }, 1000); // Wait 1 second before saving to batch updates
   };
@@ -599,7 +1335,40 @@ export default function TypingGame() {
   // Auto-save progress whenever score, streak, or attempts change
   useEffect(() => {
     saveProgressToSupabase();
-  }, [score, maxStreak, totalAttempts, correctAnswers, user]);
+  }, [score, maxStreak, totalAttempts, correctAnswers, user, wordSpeeds]);
+
+  // Signed out: keep progress in IndexedDB so it survives a reload and can
+  // be merged into an account later
+  useEffect(() => {
+    if (user || !guestLoadedRef.current) return;
+    const reviews = [
+      ...Array.from(wordReviews, ([word_id, state]) => ({ ...state, word_id, direction: "recall" as const })),
+      ...Array.from(meaningReviews, ([word_id, state]) => ({ ...state, word_id, direction: "meaning" as const })),
+    ];
+    saveGuestProgress({
+      stats: {
+        score,
+        highest_streak: maxStreak,
+        total_words_completed: totalAttempts,
+        correct_answers: correctAnswers,
+        max_level_unlocked: maxLevelUnlocked,
+      },
+      learnedIds: learnedWords.map((w) => w.id),
+      reviewIds: reviewWords.map((w) => w.id),
+      reviews,
+    });
+  }, [
+    user,
+    score,
+    maxStreak,
+    totalAttempts,
+    correctAnswers,
+    maxLevelUnlocked,
+    learnedWords,
+    reviewWords,
+    wordReviews,
+    meaningReviews,
+  ]);
 
   // When filters change, reset game position but preserve learned/review words
   // (they should persist from Supabase, not reset)
@@ -614,12 +1383,38 @@ export default function TypingGame() {
     setMadeMistakeOnCurrentWord(false);
     setJustCompleted(false);
     // NOTE: Do NOT reset learnedWords or reviewWords - they persist from Supabase
-  }, [complexityFilter, frequencyBandId, classificationFilter]);
+  }, [complexityFilter, frequencyBandId, classificationFilter, activeDeckId]);
+
+  // Arm a new sprint (or turn sprints off with null). Sprints only run in
+  // Copy and Recall Mode; the clock starts on the first keystroke.
+  const armSprint = (duration: SprintDuration | null, forMode: GameMode = mode) => {
+    setSprintDuration(duration);
+    setSprintResult(null);
+    setSprint(
+      duration && (forMode === "copy" || forMode === "recall")
+        ? createSprint(forMode, duration)
+        : null
+    );
+  };
+
+  // Count a submitted word towards the sprint while its clock is running
+  const recordSprintWord = (word: Word, isCorrect: boolean) => {
+    if (!sprint || sprint.startedAt === null || sprint.mode !== mode) return;
+    if (sprintRemainingMs(sprint, Date.now()) <= 0) return;
+    setSprint(recordSprintAnswer(sprint, word, isCorrect));
+  };
 
   // Switch between Copy and Recall modes
   const handleModeChange = (nextMode: GameMode) => {
     setMode(nextMode);
+    armSprint(sprintDuration, nextMode);
     setInput("");
+    setRecallFailure(null);
+    if (quizFeedbackTimeoutRef.current !== null) {
+      window.clearTimeout(quizFeedbackTimeoutRef.current);
+      quizFeedbackTimeoutRef.current = null;
+    }
+    setQuizAnswer(null);
     setJustCompleted(false);
     // NOTE: Do NOT reset learned/review words when switching modes
   };
@@ -627,12 +1422,45 @@ export default function TypingGame() {
   // Handle typing in the input box.
   // In Copy Mode: count errors during typing
   // In Recall Mode: do NOT count errors during typing (only on Enter submission)
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const applyInputValue = (value: string) => {
     if (!currentWord) return;
 
+    // Meaning Mode takes free English text: no Hangul grading or automaton
+    if (mode === "meaning") {
+      setInput(value);
+      setJustCompleted(false);
+      return;
+    }
+
+    // Timed sprint: the clock starts on the first keystroke
+    if (sprint && sprint.startedAt === null && sprint.mode === mode) {
+      const now = Date.now();
+      setSprint(startSprint(sprint, now, currentLevel ?? 1));
+      setSprintNow(now);
+    }
+
     const target = currentWord.korean;
     const previous = input;
-    let next = e.target.value;
+    let next = value;
+
+    // Latin letters while the target is Hangul mean the OS keyboard isn't set
+    // to Korean: switch to the built-in automaton and convert what was typed
+    // so those keystrokes aren't lost.
+    if (hasLatinLetters(next) && Array.from(target).some(isHangulSyllable)) {
+      if (inputMethod === "ime") {
+        console.log('[Input] Latin input detected, switching to built-in 2-beolsik');
+        setInputMethod("dubeolsik");
+        setInputMethodNotice(true);
+        if (inputMethodNoticeTimeoutRef.current !== null) {
+          window.clearTimeout(inputMethodNoticeTimeoutRef.current);
+        }
+        inputMethodNoticeTimeoutRef.current = window.setTimeout(() => {
+          setInputMethodNotice(false);
+          inputMethodNoticeTimeoutRef.current = null;
+        }, 2500);
+      }
+      next = latinToHangul(next);
+    }
 
     // Prevent typing beyond the length of the target word
     if (next.length > target.length) {
@@ -643,49 +1471,63 @@ export default function TypingGame() {
     // In Copy Mode: Count errors during typing for live feedback
     // In Recall Mode: Errors are only counted on Enter submission (see handleSubmitCurrentWord)
     // ============================================================================
-    if (mode === "copy" && next.length > previous.length) {
-      const added = next.slice(previous.length);
-      const startIndex = previous.length;
-
-      let newErrors = 0;
-      for (let i = 0; i < added.length; i += 1) {
-        const idx = startIndex + i;
-        const targetChar = target[idx];
-        const typedChar = added[i];
-
-        if (targetChar !== typedChar) {
-          // If the target is a Hangul syllable and the typed character is a
-          // Hangul Jamo, treat this as part of IME composition and DO NOT
-          // count it as an error yet (e.g. typing ㄱ on the way to 것).
-          if (
-            !(isHangulSyllable(targetChar) && isHangulJamo(typedChar))
-          ) {
-            newErrors += 1;
-          }
-        }
-      }
+    if (
+      mode === "copy" &&
+      toKeystrokes(next).length > toKeystrokes(previous).length
+    ) {
+      // Grade the whole in-progress input with the Hangul module: a syllable
+      // that can still become the target (거 on the way to 것, or 갇 on the
+      // way to 가다) is "composing", anything else is an error. Only errors
+      // introduced by this keystroke are counted.
+      const newErrors =
+        countIncorrect(next, target) - countIncorrect(previous, target);
 
       if (newErrors > 0) {
         setErrors((prevErrors) => prevErrors + newErrors);
         setMadeMistakeOnCurrentWord(true);
+
+        // Flash the physical key that caused the mistake on the keyboard overlay
+        if (lastKeyCodeRef.current) {
+          setWrongKeyCode(lastKeyCodeRef.current);
+          if (wrongKeyTimeoutRef.current !== null) {
+            window.clearTimeout(wrongKeyTimeoutRef.current);
+          }
+          wrongKeyTimeoutRef.current = window.setTimeout(() => {
+            setWrongKeyCode(null);
+            wrongKeyTimeoutRef.current = null;
+          }, 400);
+        }
       }
     }
 
+    // Record a timestamp for every keystroke in Copy Mode (used for 타수)
+    if (mode === "copy" && next !== previous) {
+      const now = performance.now();
+      keystrokesRef.current.push({ at: now, input: next });
+      setLiveStrokesPerMinute(
+        computeLiveStrokesPerMinute(keystrokesRef.current, now)
+      );
+    }
+
     setInput(next);
     setJustCompleted(false);
   };
 
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) =>
+    applyInputValue(e.target.value);
+
+
   // Count how many learned words belong to the current filter/level set.
   const learnedInLevelCount = useMemo(() => {
-    if (wordList.length === 0 || learnedWords.length === 0) return 0;
+    if (wordList.length === 0 || shownLearnedWords.length === 0) return 0;
     const ids = new Set(wordList.map((w) => w.id));
-    return learnedWords.filter((w) => ids.has(w.id)).length;
-  }, [wordList, learnedWords]);
+    return shownLearnedWords.filter((w) => ids.has(w.id)).length;
+  }, [wordList, shownLearnedWords]);
 
-  // Progress counter shows current index in copy mode, but in recall mode
-  // we display learned words for this level only.
+  // Progress counter shows current index in copy mode, but in recall/meaning
+  // mode we display learned words for this level only.
   const progressLabel = wordList.length > 0
-    ? mode === "recall"
+    ? isReviewMode
         ? `${learnedInLevelCount} / ${wordList.length}`
         : `${currentIndex + 1} / ${wordList.length}`
     : "0 / 0";
@@ -699,72 +1541,88 @@ export default function TypingGame() {
       : Math.round((correctAnswers / totalAttempts) * 100);
 
   // ============================================================================
-  // Submit handler triggered explicitly (e.g. Enter key).
-  // Validates the current word, updates accuracy / score / streak, and advances to next word.
-  // In Recall Mode: saves learned/failed words to Supabase.
+  // Recall Mode grading: reschedule the word locally right away (SM-2), mirror
+  // it into the Learned / To Review lists and persist through the single
+  // review-grading API when signed in.
   // ============================================================================
-  const handleSubmitCurrentWord = () => {
-    if (!currentWord || input.length === 0) return;
-
-    const target = currentWord.korean;
-    const isCorrect = input === target && !madeMistakeOnCurrentWord;
+  const recordReview = (
+    word: Word,
+    quality: ReviewQuality,
+    hintsUsed = 0,
+    direction: ReviewDirection = "recall"
+  ) => {
+    const now = Date.now();
+    const reviews = direction === "meaning" ? meaningReviews : wordReviews;
+    const setReviews = direction === "meaning" ? setMeaningReviews : setWordReviews;
+    const state = scheduleReview(reviews.get(word.id) ?? null, quality, new Date(now));
+    setReviews((prev) => new Map(prev).set(word.id, state));
+    setSrsNow(now);
+
+    if (direction !== "recall") {
+      // Meaning Mode lists are derived from its schedule
+    } else if (isPassingQuality(quality)) {
+      setReviewWords((prev) => prev.filter((w) => w.id !== word.id));
+      setLearnedWords((prev) =>
+        prev.find((w) => w.id === word.id) ? prev : [...prev, word]
+      );
+    } else {
+      setLearnedWords((prev) => prev.filter((w) => w.id !== word.id));
+      setReviewWords((prev) =>
+        prev.find((w) => w.id === word.id) ? prev : [...prev, word]
+      );
+    }
 
-    setTotalAttempts((prev) => prev + 1);
+    if (user) {
+      syncOutbox.submit(user.id, {
+        kind: "grade_review",
+        word_id: word.id,
+        state,
+        quality,
+        hints_used: hintsUsed,
+        direction,
+      });
+    }
+  };
 
-    // ============================================================================
-    // Recall Mode: Track learned/failed words and save to Supabase
-    // ============================================================================
-    if (mode === "recall") {
-      if (isCorrect) {
-        // If this word was previously marked for review, remove it from that list (local + DB when available)
-        setReviewWords((prev) => {
-          const exists = prev.find((w) => w.id === currentWord.id);
-          if (!exists) return prev;
-
-          // If signed in, remove server-side as well
-          if (user) {
-            removeReviewWord(user.id, currentWord.id).catch((err) =>
-              console.error('[TypingGame] Error removing word from review list:', err)
-            );
-          }
+  // Dictionary "Practice now": switch to Copy Mode with this word up next
+  const handlePracticeWord = (word: Word) => {
+    console.log('[Dictionary] Practice now:', word.korean);
+    handleModeChange("copy");
+    setPinnedWord(word);
+    setSelectedWord(null);
+  };
 
-          return prev.filter((w) => w.id !== currentWord.id);
-        });
+  // Dictionary "Add to review": due right away in Recall Mode
+  const handleAddWordToReview = (word: Word) => {
+    console.log('[Dictionary] Add to review:', word.korean);
+    setWordReviews((prev) => {
+      const next = new Map(prev);
+      next.set(word.id, markForReview(prev.get(word.id) ?? null));
+      return next;
+    });
+    setLearnedWords((prev) => prev.filter((w) => w.id !== word.id));
+    setReviewWords((prev) =>
+      prev.some((w) => w.id === word.id) ? prev : [word, ...prev]
+    );
+    setSrsNow(Date.now());
 
-        // Correct: Add to learned list (local + DB when available)
-        setLearnedWords((prev) => {
-          if (!prev.find((w) => w.id === currentWord.id)) {
-            const updated = [...prev, currentWord];
-            if (user) {
-              addLearnedWord(user.id, currentWord).catch((err) =>
-                console.error('[TypingGame] Error saving learned word:', err)
-              );
-            }
-            return updated;
-          }
-          return prev;
-        });
-      } else {
-        // Wrong: Add to review list (local + DB when available)
-        setReviewWords((prev) => {
-          if (!prev.find((w) => w.id === currentWord.id)) {
-            const updated = [...prev, currentWord];
-            if (user) {
-              addReviewWord(user.id, currentWord).catch((err) =>
-                console.error('[TypingGame] Error saving review word:', err)
-              );
-            }
-            return updated;
-          }
-          return prev;
-        });
-        setErrors(1); // In Recall Mode, count errors only on submission
-      }
+    if (user) {
+      syncOutbox.submit(user.id, { kind: "requeue_review", word_id: word.id });
     }
+  };
 
-    // ============================================================================
-    // Standard game mechanics (same for both modes)
-    // ============================================================================
+  // Words due for review by the end of today (all levels, current direction)
+  const dueTodayCount = useMemo(() => {
+    let count = 0;
+    activeReviews.forEach((state) => {
+      if (isDueToday(state, srsNow)) count += 1;
+    });
+    return count;
+  }, [activeReviews, srsNow]);
+
+  // Update accuracy, streak, score and level unlocks after an answer.
+  // `scoreFactor` scales the points (hints, Quiz Mode).
+  const applyAttemptResult = (isCorrect: boolean, scoreFactor = 1) => {
     if (isCorrect) {
       // Perfect attempt
       setCorrectAnswers((prev) => prev + 1);
@@ -782,7 +1640,9 @@ export default function TypingGame() {
         };
 
         const multiplier = getMultiplier(nextStreak);
-        setScore((prevScore) => prevScore + BASE_SCORE * multiplier);
+        setScore((prevScore) =>
+          prevScore + Math.round(BASE_SCORE * multiplier * scoreFactor)
+        );
 
         // Unlock next level if this one is higher than any seen before
         if (currentLevel && currentLevel > maxLevelUnlocked) {
@@ -795,8 +1655,77 @@ export default function TypingGame() {
       // Incorrect attempt resets streak
       setCurrentStreak(0);
     }
+  };
+
+  // ============================================================================
+  // Submit handler triggered explicitly (e.g. Enter key).
+  // Validates the current word, updates accuracy / score / streak, and advances to next word.
+  // In Recall Mode: saves learned/failed words to Supabase.
+  // ============================================================================
+  const handleSubmitCurrentWord = () => {
+    if (!currentWord || input.length === 0) return;
+
+    const target = currentWord.korean;
+    const isCorrect =
+      mode === "meaning"
+        ? isMeaningCorrect(input, currentWord.senses)
+        : input === target && !madeMistakeOnCurrentWord;
+
+    setTotalAttempts((prev) => prev + 1);
+
+    // Copy Mode: compute typing speed for correctly typed words
+    if (mode === "copy") {
+      const speed = isCorrect
+        ? computeWordSpeed({
+            target,
+            shownAt: wordShownAtRef.current,
+            keystrokes: keystrokesRef.current,
+            completedAt: performance.now(),
+          })
+        : null;
+      if (speed) {
+        setWordSpeeds((prev) => [...prev, speed]);
+        setLastWordSpeed(speed);
+      }
+      keystrokesRef.current = [];
+      setLiveStrokesPerMinute(0);
+    }
+
+    // ============================================================================
+    // Recall Mode: Grade the answer (SM-2) and save to Supabase
+    // ============================================================================
+    if (mode === "recall") {
+      // Hinted answers are graded as weaker recalls
+      recordReview(currentWord, qualityForAnswer(isCorrect, hintLevel), hintLevel);
+      if (!isCorrect) {
+        setErrors(1); // In Recall Mode, count errors only on submission
+        // Reveal the answer next to the attempt before moving on
+        setRecallFailure({ word: currentWord, attempt: input, direction: "recall" });
+      }
+    }
+
+    // ============================================================================
+    // Meaning Mode: grade the English answer on its own schedule
+    // ============================================================================
+    if (mode === "meaning") {
+      recordReview(currentWord, qualityForAnswer(isCorrect, 0), 0, "meaning");
+      if (!isCorrect) {
+        setErrors(1);
+        setRecallFailure({ word: currentWord, attempt: input, direction: "meaning" });
+      }
+    }
+
+    recordSprintWord(currentWord, isCorrect);
+
+    // ============================================================================
+    // Standard game mechanics (same for all modes)
+    // ============================================================================
+    // Recall Mode hints reduce the points for this word
+    applyAttemptResult(isCorrect, HINT_SCORE_FACTORS[hintLevel] ?? 1);
 
     setJustCompleted(isCorrect);
+    setHints({ wordId: "", level: 0 });
+    setPinnedWord(null);
 
     // Clear input immediately so the field is ready for the next word.
     setInput("");
@@ -818,11 +1747,49 @@ export default function TypingGame() {
     });
   };
 
-  // Skip current word in Recall Mode — treated as a failed attempt:
+  // Quiz Mode: grade the picked option, show feedback, then move on
+  const handleQuizAnswer = (index: number) => {
+    if (!currentWord || !quizQuestion || quizAnswer) return;
+
+    const isCorrect = index === quizQuestion.answerIndex;
+    console.log('[Quiz] Picked option', index + 1, 'for', currentWord.korean, isCorrect ? '(correct)' : '(wrong)');
+
+    setTotalAttempts((prev) => prev + 1);
+    applyAttemptResult(isCorrect, QUIZ_SCORE_FACTOR);
+    setQuizAnswer({ wordId: currentWord.id, index });
+
+    // Reschedule only after the feedback: a graded word is no longer due,
+    // so recording it right away would swap the question out immediately
+    const word = currentWord;
+    quizFeedbackTimeoutRef.current = window.setTimeout(
+      () => {
+        quizFeedbackTimeoutRef.current = null;
+        recordReview(word, isCorrect ? QUALITY_HARD : QUALITY_WRONG);
+        setQuizAnswer(null);
+        setQuizRound((prev) => prev + 1);
+        setPinnedWord(null);
+        setCurrentIndex((prevIndex) =>
+          wordList.length === 0 ? 0 : (prevIndex + 1) % wordList.length
+        );
+      },
+      isCorrect ? QUIZ_FEEDBACK_MS.correct : QUIZ_FEEDBACK_MS.wrong
+    );
+  };
+
+  // Reveal Recall Mode hints up to `level` (1 length, 2 초성, 3 first
+  // syllable, 4 hanja). Hints only ever grow for the current word.
+  const revealHint = (level: number) => {
+    if (!currentWord || mode !== "recall") return;
+    const next = Math.min(Math.max(level, hintLevel), maxHintLevel);
+    console.log('[Hint] Revealing hint level', next, 'for', currentWord.korean);
+    setHints({ wordId: currentWord.id, level: next });
+  };
+
+  // Skip current word in Recall/Meaning Mode — treated as a failed attempt:
   // - adds word to `reviewWords` (and Supabase when authenticated)
   // - increments attempts, resets streak, advances to next word
   const handleSkipCurrentWord = () => {
-    if (!currentWord || mode !== "recall") return;
+    if (!currentWord || !isReviewMode) return;
 
     console.info('[Skip] handler called for:', currentWord.korean, currentWord.id);
     setSkipNotice(true);
@@ -830,20 +1797,15 @@ export default function TypingGame() {
 
     setTotalAttempts((prev) => prev + 1);
 
-    if (user) {
-      setReviewWords((prev) => {
-        if (!prev.find((w) => w.id === currentWord.id)) {
-          const updated = [...prev, currentWord];
-          addReviewWord(user.id, currentWord).catch((err) =>
-            console.error('[TypingGame] Error saving skipped (review) word:', err)
-          );
-          return updated;
-        }
-        return prev;
-      });
-    } else {
-      setReviewWords((prev) => (prev.find((w) => w.id === currentWord.id) ? prev : [...prev, currentWord]));
-    }
+    recordReview(
+      currentWord,
+      QUALITY_SKIPPED,
+      hintLevel,
+      mode === "meaning" ? "meaning" : "recall"
+    );
+    recordSprintWord(currentWord, false);
+    setHints({ wordId: "", level: 0 });
+    setPinnedWord(null);
 
     setErrors(1);
     setCurrentStreak(0);
@@ -851,17 +1813,20 @@ export default function TypingGame() {
     setInput("");
     setMadeMistakeOnCurrentWord(false);
 
-    // Select next index — prefer a different, unlearned (in Recall Mode) word.
+    // Select next index — prefer a different, new (never reviewed) word.
+    // Due words are picked first anyway by getValidCurrentWord.
     const nextIndex = (() => {
       if (wordList.length === 0) return 0;
-      const learnedIds = new Set(learnedWords.map((w) => w.id));
+      const learnedIds = new Set(shownLearnedWords.map((w) => w.id));
 
       for (let offset = 1; offset < wordList.length; offset++) {
         const candidate = wordList[(currentIndex + offset) % wordList.length];
         if (!candidate) continue;
         if (candidate.id === currentWord.id) continue; // ensure different word
-        // Skip learned words in Recall Mode; `mode` is guaranteed to be "recall" here
-        if (!learnedIds.has(candidate.id)) return (currentIndex + offset) % wordList.length;
+        // Skip learned/scheduled words for the current direction
+        if (!learnedIds.has(candidate.id) && !activeReviews.has(candidate.id)) {
+          return (currentIndex + offset) % wordList.length;
+        }
       }
 
       // fallback: advance by one (may wrap to same if pool size === 1)
@@ -869,8 +1834,6 @@ export default function TypingGame() {
     })();
 
     setCurrentIndex(nextIndex);
-    // Force show the chosen index for this render (getValidCurrentWord will honor it)
-    setForcedIndex(nextIndex);
     console.log('[Skip] Skipped word processed; moving to index', nextIndex, '->', wordList[nextIndex]?.korean ?? '(none)');
   }; 
 
@@ -896,6 +1859,11 @@ export default function TypingGame() {
 
             {showAuthForm && (
               <div className="space-y-3">
+                {!CLOUD_FEATURES && (
+                  <p className="text-xs text-slate-400">
+                    Local demo: accounts and progress are stored in this browser only.
+                  </p>
+                )}
                 <div>
                   <input
                     type="email"
@@ -969,12 +1937,138 @@ export default function TypingGame() {
               <span className="text-slate-400">Logged in:</span>{" "}
               {user.email}
             </div>
+            <div className="flex gap-2">
+              {CLOUD_FEATURES && (
+                <button
+                  type="button"
+                  onClick={() => setShowDecks((v) => !v)}
+                  className="rounded-lg bg-slate-800 px-3 py-1 text-xs font-medium text-violet-300 hover:bg-slate-700 transition"
+                >
+                  Decks{decks.length > 0 && ` (${decks.length})`}
+                </button>
+              )}
+              {syncStatus.pending > 0 && (
+                <button
+                  type="button"
+                  onClick={() => syncOutbox.flush(true)}
+                  title={
+                    syncStatus.lastError
+                      ? `Last attempt failed: ${syncStatus.lastError}. Click to retry now.`
+                      : "Sending… Click to retry now."
+                  }
+                  className="rounded-lg bg-slate-800 px-3 py-1 text-xs font-medium text-amber-300 hover:bg-slate-700 transition"
+                >
+                  ⟳ {syncStatus.pending} unsynced change{syncStatus.pending !== 1 ? "s" : ""}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => {
+                  if (!showMyReports) refreshMyReports();
+                  setShowMyReports((v) => !v);
+                }}
+                className="rounded-lg bg-slate-800 px-3 py-1 text-xs font-medium text-orange-300 hover:bg-slate-700 transition"
+              >
+                My reports
+                {myReports.some((r) => r.status === "pending") &&
+                  ` (${myReports.filter((r) => r.status === "pending").length} pending)`}
+              </button>
+              <button
+                type="button"
+                onClick={handleLogout}
+                className="rounded-lg bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 transition"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        )}
+
+        {user && showMyReports && (
+          <MyReportsPanel
+            reports={myReports}
+            onSave={handleSaveMyReport}
+            onWithdraw={handleWithdrawMyReport}
+            onClose={() => setShowMyReports(false)}
+          />
+        )}
+
+        {user && showDecks && (
+          <DecksPanel
+            decks={decks}
+            activeDeckId={activeDeckId}
+            onCreate={handleCreateDeck}
+            onRename={handleRenameDeck}
+            onDelete={handleDeleteDeck}
+            onPractice={handlePracticeDeck}
+            onRemoveWord={handleRemoveFromDeck}
+            onImport={() => setShowImport(true)}
+            onExport={handleExportDeck}
+            onClose={() => setShowDecks(false)}
+          />
+        )}
+
+        {exportSource?.origin === "decks" && (
+          <div className="mb-6">
+            <ExportPanel
+              title={exportSource.title}
+              fileLabel={exportSource.fileLabel}
+              rows={exportSource.rows}
+              onClose={() => setExportSource(null)}
+            />
+          </div>
+        )}
+
+        {user && showImport && (
+          <ImportPanel
+            deckNames={decks.map((d) => d.name)}
+            onSave={handleImportDeck}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {/* Guest progress merged into the account on sign-in */}
+        {guestMergeSummary && (
+          <div className="mb-4 flex items-start justify-between gap-3 rounded-lg border border-emerald-900/60 bg-emerald-950/30 p-3 text-xs text-emerald-200">
+            <span>
+              Progress from this device was added to your account: {guestMergeSummary.points} points
+              and {guestMergeSummary.answers} answer{guestMergeSummary.answers !== 1 ? "s" : ""},{" "}
+              {guestMergeSummary.learnedAdded} learned word{guestMergeSummary.learnedAdded !== 1 ? "s" : ""},{" "}
+              {guestMergeSummary.reviewAdded} word{guestMergeSummary.reviewAdded !== 1 ? "s" : ""} to review
+              {guestMergeSummary.reviewUpdated > 0 &&
+                ` (${guestMergeSummary.reviewUpdated} already there, fails added)`}
+              {guestMergeSummary.schedulesAdded > 0 &&
+                `, ${guestMergeSummary.schedulesAdded} review schedule${guestMergeSummary.schedulesAdded !== 1 ? "s" : ""}`}
+              .
+              {guestMergeSummary.alreadyTracked > 0 &&
+                ` ${guestMergeSummary.alreadyTracked} word${guestMergeSummary.alreadyTracked !== 1 ? "s were" : " was"} already in your lists and kept as they were.`}
+            </span>
+            <button
+              type="button"
+              onClick={() => setGuestMergeSummary(null)}
+              className="text-emerald-300 hover:text-white"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Progress that couldn't be carried over to the current word ids */}
+        {unmatchedWordIds.length > 0 && (
+          <div className="mb-4 flex items-start justify-between gap-3 rounded-lg border border-amber-900/60 bg-amber-950/30 p-3 text-xs text-amber-200">
+            <span>
+              {unmatchedWordIds.length} saved word{unmatchedWordIds.length !== 1 ? "s" : ""} could
+              not be matched to the current word list and {unmatchedWordIds.length !== 1 ? "were" : "was"} left
+              as is: {unmatchedWordIds.join(", ")}
+            </span>
             <button
               type="button"
-              onClick={handleLogout}
-              className="rounded-lg bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 transition"
+              onClick={() => setUnmatchedWordIds([])}
+              className="text-amber-300 hover:text-white"
+              aria-label="Dismiss"
             >
-              Logout
+              ✕
             </button>
           </div>
         )}
@@ -1040,18 +2134,90 @@ export default function TypingGame() {
                 </select>
               </label>
 
+              <label className="flex items-center gap-1">
+                <span className="text-slate-400">Input</span>
+                <select
+                  value={inputMethod}
+                  onChange={(e) => setInputMethod(e.target.value as InputMethod)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+                >
+                  <option value="ime">System IME</option>
+                  <option value="dubeolsik">Built-in 2-beolsik (no IME)</option>
+                </select>
+              </label>
+
+              {(mode === "copy" || mode === "recall") && (
+                <label className="flex items-center gap-1">
+                  <span className="text-slate-400">Sprint</span>
+                  <select
+                    value={sprintDuration ?? "off"}
+                    onChange={(e) =>
+                      armSprint(
+                        e.target.value === "off"
+                          ? null
+                          : (Number(e.target.value) as SprintDuration)
+                      )
+                    }
+                    className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+                  >
+                    <option value="off">Off</option>
+                    {SPRINT_DURATIONS.map((d) => (
+                      <option key={d} value={d}>
+                        {formatSprintDuration(d)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {mode === "quiz" && (
+                <label className="flex items-center gap-1">
+                  <span className="text-slate-400">Quiz</span>
+                  <select
+                    value={quizPrompt}
+                    onChange={(e) => setQuizPrompt(e.target.value as QuizPrompt)}
+                    className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+                  >
+                    <option value="korean">Korean → meaning</option>
+                    <option value="meaning">Meaning → Korean</option>
+                  </select>
+                </label>
+              )}
+
+              {/* Word source: the level filters or one of the user's decks */}
+              {decks.length > 0 && (
+                <label className="flex items-center gap-1">
+                  <span className="text-slate-400">Words</span>
+                  <select
+                    value={activeDeckId ?? ""}
+                    onChange={(e) =>
+                      handlePracticeDeck(decks.find((d) => d.id === e.target.value) ?? null)
+                    }
+                    className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+                  >
+                    <option value="">Level filters</option>
+                    {decks.map((deck) => (
+                      <option key={deck.id} value={deck.id}>
+                        {`Deck: ${deck.name} (${deck.word_ids.length})`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
               {/* Level selector: maps to (complexity, frequency) with frequency changing fastest */}
               <label className="flex items-center gap-1">
                 <span className="text-slate-400">Level</span>
                 <select
                   value={`${currentLevel ?? 1}`}
+                  disabled={activeDeck !== null}
                   onChange={(e) => {
                     const lvl = Number(e.target.value) || 1;
                     const { complexity, frequency } = levelToFilters(lvl);
                     setComplexityFilter(complexity);
                     setFrequencyBandId(frequency);
                   }}
-                  className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+                  className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs disabled:opacity-40"
                 >
                   {Array.from({ length: MAX_LEVEL }, (_, i) => i + 1).map((lvl) => {
                     const { complexity, frequency } = levelToFilters(lvl);
@@ -1102,6 +2268,28 @@ export default function TypingGame() {
           >
             Recall Mode
           </button>
+          <button
+            type="button"
+            onClick={() => handleModeChange("meaning")}
+            className={`flex-1 rounded-full px-3 py-1 transition ${
+              mode === "meaning"
+                ? "bg-sky-500 text-white shadow-sm"
+                : "text-slate-300 hover:text-white"
+            }`}
+          >
+            Meaning
+          </button>
+          <button
+            type="button"
+            onClick={() => handleModeChange("quiz")}
+            className={`flex-1 rounded-full px-3 py-1 transition ${
+              mode === "quiz"
+                ? "bg-sky-500 text-white shadow-sm"
+                : "text-slate-300 hover:text-white"
+            }`}
+          >
+            Quiz
+          </button>
           <button
             type="button"
             onClick={() => handleModeChange("dictionary")}
@@ -1115,15 +2303,15 @@ export default function TypingGame() {
           </button>
         </div>
 
-        {/* Recall Mode: Learned/To Review Tabs */}
-        {mode === "recall" && (
+        {/* Recall/Meaning Mode: Learned/To Review Tabs (per direction) */}
+        {isReviewMode && (
           <div className="mb-6 space-y-3 border-b border-slate-700 pb-4">
             <button
               type="button"
               onClick={() => setShowTabsUI(!showTabsUI)}
               className="w-full rounded-lg bg-slate-800 px-3 py-2 text-xs font-medium text-slate-300 hover:bg-slate-700 hover:text-white transition"
             >
-              {showTabsUI ? "Hide Stats" : "Show Stats"} (Learned: {learnedWords.length} | To Review: {reviewWords.length})
+              {showTabsUI ? "Hide Stats" : "Show Stats"} (Due today: {dueTodayCount})
             </button>
 
             {showTabsUI && (
@@ -1139,7 +2327,7 @@ export default function TypingGame() {
                         : "text-slate-300 hover:text-white"
                     }`}
                   >
-                    Learned ({learnedWords.length})
+                    Learned ({shownLearnedWords.length})
                   </button>
                   <button
                     type="button"
@@ -1150,25 +2338,61 @@ export default function TypingGame() {
                         : "text-slate-300 hover:text-white"
                     }`}
                   >
-                    To Review ({reviewWords.length})
+                    To Review ({shownReviewWords.length})
+                  </button>
+                </div>
+
+                {/* Export the tab, or copy it into a deck */}
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={handleExportTab}
+                    disabled={shownTabWords.length === 0}
+                    className="rounded-md bg-slate-800 px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 disabled:opacity-40 transition"
+                  >
+                    Export…
                   </button>
+                  {user && (
+                    <AddToDeckSelect
+                      decks={decks}
+                      wordIds={shownTabWords.map((w) => w.id)}
+                      onAdd={(deckId) => handleAddToDeck(deckId, shownTabWords.map((w) => w.id))}
+                      label={`Add all ${activeTab === "learned" ? "learned" : "to review"} to deck…`}
+                    />
+                  )}
                 </div>
 
+                {exportSource?.origin === "tabs" && (
+                  <ExportPanel
+                    title={exportSource.title}
+                    fileLabel={exportSource.fileLabel}
+                    rows={exportSource.rows}
+                    onClose={() => setExportSource(null)}
+                  />
+                )}
+
                 {/* Learned Tab Content */}
                 {activeTab === "learned" && (
                   <div className="max-h-40 space-y-2 overflow-y-auto rounded-lg bg-slate-800/50 p-3">
-                    {learnedWords.length === 0 ? (
+                    {shownLearnedWords.length === 0 ? (
                       <div className="text-center text-xs text-slate-400">
                         No learned words yet. Keep typing!
                       </div>
                     ) : (
-                      learnedWords.map((word) => (
+                      shownLearnedWords.map((word) => (
                         <div
                           key={word.id}
                           className="rounded-md border border-emerald-900/50 bg-emerald-900/20 p-2 text-xs"
                         >
-                          <div className="font-semibold text-emerald-400">
-                            {word.korean}
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="font-semibold text-emerald-400">
+                              {word.korean}
+                            </div>
+                            <AddToDeckSelect
+                              decks={decks}
+                              wordIds={[word.id]}
+                              onAdd={(deckId) => handleAddToDeck(deckId, [word.id])}
+                            />
                           </div>
                           <div className="text-slate-300">
                             {word.en}
@@ -1183,18 +2407,25 @@ export default function TypingGame() {
                 {/* To Review Tab Content */}
                 {activeTab === "to-review" && (
                   <div className="max-h-40 space-y-2 overflow-y-auto rounded-lg bg-slate-800/50 p-3">
-                    {reviewWords.length === 0 ? (
+                    {shownReviewWords.length === 0 ? (
                       <div className="text-center text-xs text-slate-400">
                         No review words yet. Great job!
                       </div>
                     ) : (
-                      reviewWords.map((word) => (
+                      shownReviewWords.map((word) => (
                         <div
                           key={word.id}
                           className="rounded-md border border-amber-900/50 bg-amber-900/20 p-2 text-xs"
                         >
-                          <div className="font-semibold text-amber-400">
-                            {word.korean}
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="font-semibold text-amber-400">
+                              {word.korean}
+                            </div>
+                            <AddToDeckSelect
+                              decks={decks}
+                              wordIds={[word.id]}
+                              onAdd={(deckId) => handleAddToDeck(deckId, [word.id])}
+                            />
                           </div>
                           <div className="text-slate-300">
                             {word.en}
@@ -1216,19 +2447,71 @@ export default function TypingGame() {
         )}
 
 
-        {currentWord && mode !== "dictionary" ? (
+        {sprintResult ? (
+          <SprintResultsPanel
+            result={sprintResult.result}
+            previousBest={sprintResult.previousBest}
+            missedWords={allWords.filter((w) =>
+              sprintResult.result.missedWordIds.includes(w.id)
+            )}
+            onRestart={() => armSprint(sprintResult.result.durationSeconds)}
+            onClose={() => armSprint(null)}
+          />
+        ) : mode === "quiz" && quizQuestion ? (
+          <QuizPanel
+            question={quizQuestion}
+            selectedIndex={
+              quizAnswer?.wordId === quizQuestion.word.id ? quizAnswer.index : null
+            }
+            onAnswer={handleQuizAnswer}
+          />
+        ) : isReviewMode && recallFailure ? (
+          <RecallFailurePanel
+            word={recallFailure.word}
+            attempt={recallFailure.attempt}
+            direction={recallFailure.direction}
+            onContinue={() => setRecallFailure(null)}
+          />
+        ) : currentWord && mode !== "dictionary" ? (
           <>
+            {/* Sprint countdown */}
+            {sprint && (
+              <div className="mb-3 text-center font-mono text-sm">
+                {sprint.startedAt === null ? (
+                  <span className="text-slate-400">
+                    {formatSprintDuration(sprint.durationSeconds)} sprint — the clock starts on your first keystroke
+                  </span>
+                ) : (
+                  <span className="text-sky-300">
+                    ⏱ {formatCountdown(sprintRemainingMs(sprint, sprintNow))}
+                    <span className="ml-3 text-slate-400">
+                      {sprint.completed} words · streak {sprint.streak}
+                    </span>
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Word and definitions */}
             <div className="mb-6 space-y-2 text-center">
-              <KoreanWordDisplay
-                word={currentWord.korean}
-                typed={input}
-                mode={mode}
-              />
+              {mode === "meaning" ? (
+                // Meaning Mode: the Korean word is the prompt, the meaning is hidden
+                <div className="text-3xl md:text-4xl font-semibold tracking-wide text-slate-50">
+                  {currentWord.korean}
+                </div>
+              ) : (
+                <KoreanWordDisplay
+                  word={currentWord.korean}
+                  typed={input}
+                  mode={mode}
+                />
+              )}
+              {mode !== "meaning" && (
               <div className="text-sm text-slate-300">
-                <span className="font-semibold text-slate-100">
-                  {currentWord.en}
-                </span>
+                <SenseList
+                  senses={currentWord.senses}
+                  className="font-semibold text-slate-100"
+                />
                 {currentWord.zh && (
                   <>
                     <span className="mx-2 text-slate-500">/</span>
@@ -1236,6 +2519,7 @@ export default function TypingGame() {
                   </>
                 )}
               </div>
+              )}
               {currentWord.classification && (
                 <div className="text-xs text-slate-400">
                   {currentWord.classification}
@@ -1244,7 +2528,7 @@ export default function TypingGame() {
               {currentWord.hanja && (
                 <div className="text-xs text-slate-400">{currentWord.hanja}</div>
               )}
-              {currentWord.wordreferencelink && (
+              {mode !== "meaning" && currentWord.wordreferencelink && (
                 <div className="pt-1 text-xs">
                   <a
                     href={currentWord.wordreferencelink}
@@ -1256,7 +2540,7 @@ export default function TypingGame() {
                   </a>
                 </div>
               )}
-              {currentWord.wiktionarylink && (
+              {mode !== "meaning" && currentWord.wiktionarylink && (
                 <div className="pt-1 text-xs">
                   <a
                     href={currentWord.wiktionarylink}
@@ -1297,8 +2581,36 @@ export default function TypingGame() {
                   setInput(e.currentTarget.value);
                 }}
                 onKeyDown={(e) => {
-                  // Support Skip via Escape in Recall mode
-                  if (e.key === "Escape" && mode === "recall") {
+                  // Remember the physical key so a resulting mistake can be
+                  // flashed on the keyboard overlay (works with any IME)
+                  lastKeyCodeRef.current = e.code;
+
+                  // Recall Mode hints: Alt+1 … Alt+4
+                  if (mode === "recall" && e.altKey && /^Digit[1-4]$/.test(e.code)) {
+                    e.preventDefault();
+                    revealHint(Number(e.code.slice(-1)));
+                    return;
+                  }
+
+                  // Built-in automaton: compose raw key presses ourselves
+                  // (Backspace removes one jamo at a time)
+                  if (
+                    mode !== "meaning" &&
+                    inputMethod === "dubeolsik" &&
+                    !e.ctrlKey &&
+                    !e.metaKey &&
+                    !e.altKey
+                  ) {
+                    const composed = applyKeyPress(input, e.code, e.shiftKey);
+                    if (composed !== null) {
+                      e.preventDefault();
+                      applyInputValue(composed);
+                      return;
+                    }
+                  }
+
+                  // Support Skip via Escape in Recall/Meaning mode
+                  if (e.key === "Escape" && isReviewMode) {
                     if (isComposing) {
                       e.preventDefault();
                       return;
@@ -1321,13 +2633,63 @@ export default function TypingGame() {
                 placeholder={
                   mode === "copy"
                     ? "Copy the Korean word here..."
-                    : "Recall and type the Korean word..."
+                    : mode === "meaning"
+                      ? "Type the English meaning..."
+                      : "Recall and type the Korean word..."
                 }
                 className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-center text-lg tracking-wide text-slate-50 outline-none ring-sky-500/60 focus:border-sky-500 focus:ring-2"
                 autoFocus
               />
-              {mode === "recall" && currentWord && (
-                <div className="mt-2 flex justify-center gap-2">
+              {mode === "copy" && (
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => setShowKeyboard(!showKeyboard)}
+                    className="rounded-md bg-slate-800 px-3 py-1 text-xs font-medium text-slate-300 hover:bg-slate-700 hover:text-white transition"
+                  >
+                    {showKeyboard ? "Hide Keyboard" : "Show Keyboard"}
+                  </button>
+                </div>
+              )}
+              {mode === "copy" && showKeyboard && (
+                <KeyboardOverlay
+                  target={currentWord.korean}
+                  typed={input}
+                  wrongKeyCode={wrongKeyCode}
+                />
+              )}
+              {mode === "recall" && currentWord && hintLevel > 0 && (
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-amber-200">
+                  <span>{Array.from(currentWord.korean).length} syllables</span>
+                  {hintLevel >= 2 && (
+                    <span className="font-semibold tracking-widest">
+                      {extractChoseong(currentWord.korean)}
+                    </span>
+                  )}
+                  {hintLevel >= 3 && (
+                    <span className="font-semibold">
+                      {Array.from(currentWord.korean)[0]}…
+                    </span>
+                  )}
+                  {hintLevel >= 4 && currentWord.hanja && (
+                    <span>{currentWord.hanja}</span>
+                  )}
+                </div>
+              )}
+              {isReviewMode && currentWord && (
+                <div className="mt-2 flex flex-wrap justify-center gap-2">
+                  {mode === "recall" && HINT_LABELS.slice(0, maxHintLevel).map((label, idx) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => revealHint(idx + 1)}
+                      disabled={hintLevel > idx}
+                      title={`Alt+${idx + 1}`}
+                      className="rounded-md bg-slate-800 px-3 py-1 text-xs font-medium text-amber-300 hover:bg-slate-700 disabled:opacity-40 transition"
+                    >
+                      {label}
+                    </button>
+                  ))}
                   <button
                     type="button"
                     onClick={handleSkipCurrentWord}
@@ -1337,6 +2699,35 @@ export default function TypingGame() {
                   </button>
                 </div>
               )}
+              {mode === "copy" && (
+                <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 font-mono text-xs text-slate-400">
+                  <span>
+                    Now <span className="text-slate-200">{liveStrokesPerMinute}</span> 타
+                  </span>
+                  {lastWordSpeed && (
+                    <span>
+                      Last{" "}
+                      <span className="text-slate-200">{lastWordSpeed.strokesPerMinute}</span> 타
+                      {" · "}
+                      {lastWordSpeed.syllablesPerMinute} syl/min
+                      {" · "}
+                      first key {(lastWordSpeed.timeToFirstKeyMs / 1000).toFixed(1)}s
+                    </span>
+                  )}
+                  {sessionSpeed.wordsTimed > 0 && (
+                    <span>
+                      Session{" "}
+                      <span className="text-slate-200">{sessionSpeed.avgStrokesPerMinute}</span> 타
+                      {" "}({sessionSpeed.wordsTimed} words)
+                    </span>
+                  )}
+                  {previousTypingSession && (
+                    <span>
+                      Prev session {previousTypingSession.avg_strokes_per_minute} 타
+                    </span>
+                  )}
+                </div>
+              )}
               <div className="h-5 text-center text-sm">
                 {justCompleted && (
                   <span className="font-medium text-emerald-400">
@@ -1346,12 +2737,21 @@ export default function TypingGame() {
                 {skipNotice && (
                   <span className="font-medium text-rose-300">Skipped — added to review</span>
                 )}
+                {inputMethodNotice && (
+                  <span className="font-medium text-sky-300">
+                    Latin input detected — switched to built-in 2-beolsik
+                  </span>
+                )}
               </div>
           </div>
           </>
         ) : mode !== "dictionary" ? (
           <div className="mt-6 text-center text-sm text-slate-400">
-            No words match the current filters. Try relaxing one of the filters.
+            {isReviewMode && wordList.length > 0
+              ? `All caught up! No words in this ${activeDeck ? "deck" : "level"} are due for review right now.`
+              : activeDeck
+                ? `The deck "${activeDeck.name}" has no words yet. Add some from Dictionary Mode or the Learned/To Review tabs.`
+                : "No words match the current filters. Try relaxing one of the filters."}
           </div>
         ) : null}
 
@@ -1366,64 +2766,72 @@ export default function TypingGame() {
                 type="text"
                 value={dictionarySearch}
                 onChange={(e) => setDictionarySearch(e.target.value)}
-                placeholder="Korean or English..."
+                placeholder="Korean, 초성 (ㅅㄹ), English or hanja..."
                 className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-500/60"
                 autoFocus
               />
             </div>
 
-            {/* Dictionary Results */}
-            <div className="max-h-96 overflow-y-auto space-y-2 rounded-lg bg-slate-800/50 p-3">
-              {(() => {
-                const query = dictionarySearch.toLowerCase().trim();
-                if (!query) {
-                  return (
-                    <div className="text-center text-xs text-slate-400 py-4">
-                      Start typing...
-                    </div>
-                  );
-                }
+            {/* Scope: current level or all words */}
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-slate-400">Search in</span>
+              {(["level", "all"] as const).map((scope) => (
+                <button
+                  key={scope}
+                  type="button"
+                  onClick={() => setDictionaryScope(scope)}
+                  className={`rounded-full px-3 py-1 transition ${
+                    dictionaryScope === scope
+                      ? "bg-emerald-600 text-white"
+                      : "bg-slate-800 text-slate-300 hover:text-white"
+                  }`}
+                >
+                  {scope === "level" ? "Current level" : "All words"}
+                </button>
+              ))}
+              {dictionaryScope === "level" &&
+                dictionaryMatches.length > dictionaryResults.length && (
+                  <span className="text-slate-500">
+                    {dictionaryMatches.length - dictionaryResults.length} more in other levels
+                  </span>
+                )}
+            </div>
 
-                // Filter words by current complexity/frequency filters + search query
-                const filtered = wordList.filter((word) => {
-                  const korean = word.korean.toLowerCase();
-                  const english = word.en.toLowerCase();
-                  return korean.includes(query) || english.includes(query);
-                });
-
-                if (filtered.length === 0) {
-                  return (
-                    <div className="text-center text-xs text-slate-400 py-4">
-                      No words found
-                    </div>
-                  );
-                }
+            {selectedWord && (
+              <WordDetailPanel
+                word={selectedWord}
+                level={levelForWord(selectedWord)}
+                history={{
+                  recall: wordReviews.get(selectedWord.id) ?? null,
+                  meaning: meaningReviews.get(selectedWord.id) ?? null,
+                  isLearned: learnedWords.some((w) => w.id === selectedWord.id),
+                  isInReview: reviewWords.some((w) => w.id === selectedWord.id),
+                }}
+                onPractice={() => handlePracticeWord(selectedWord)}
+                onAddToReview={() => handleAddWordToReview(selectedWord)}
+                decks={user ? decks : []}
+                onAddToDeck={(deckId) => handleAddToDeck(deckId, [selectedWord.id])}
+                onClose={() => setSelectedWord(null)}
+              />
+            )}
 
-                return (
-                  <div className="space-y-2">
-                    <div className="sticky top-0 text-xs font-medium text-slate-400 bg-slate-800/50 px-2 py-1 rounded">
-                      {filtered.length} result{filtered.length !== 1 ? "s" : ""}
-                    </div>
-                    {filtered.map((word) => (
-                      <div
-                        key={word.id}
-                        className="rounded-md border border-emerald-900/40 bg-emerald-900/15 p-2 hover:bg-emerald-900/25 transition"
-                      >
-                        <div className="text-sm font-semibold text-emerald-300">
-                          {word.korean}
-                        </div>
-                        <div className="text-xs text-slate-300 mt-0.5">
-                          {word.en}
-                          {word.zh && (
-                            <span className="text-slate-400 ml-1">/ {word.zh}</span>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                );
-              })()}
-            </div>
+            {/* Dictionary Results */}
+            {!dictionarySearch.trim() ? (
+              <div className="rounded-lg bg-slate-800/50 p-3 text-center text-xs text-slate-400 py-4">
+                Start typing...
+              </div>
+            ) : dictionaryResults.length === 0 ? (
+              <div className="rounded-lg bg-slate-800/50 p-3 text-center text-xs text-slate-400 py-4">
+                No words found
+              </div>
+            ) : (
+              <DictionaryResults
+                key={`${dictionaryScope}:${dictionarySearch}`}
+                results={dictionaryResults}
+                selectedId={selectedWord?.id ?? null}
+                onSelect={setSelectedWord}
+              />
+            )}
           </div>
         )}
 
@@ -1456,26 +2864,54 @@ export default function TypingGame() {
         {showDebugModal && (
           <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
             <div className="bg-slate-800 rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
-              <h2 className="text-lg font-bold text-slate-100">Report Incorrect Meaning</h2>
-              
+              <h2 className="text-lg font-bold text-slate-100">Report Incorrect Word Data</h2>
+
+              {/* Which field is wrong */}
+              <div className="flex flex-wrap gap-2">
+                {REPORT_FIELDS.map((field) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => setDebugField(field)}
+                    className={`rounded-md px-3 py-1 text-xs font-medium transition ${
+                      debugField === field
+                        ? "bg-orange-600 text-white"
+                        : "bg-slate-900 text-slate-300 hover:bg-slate-700"
+                    }`}
+                  >
+                    {REPORT_FIELD_LABELS[field]}
+                  </button>
+                ))}
+              </div>
+
               <div className="space-y-2">
                 <p className="text-sm text-slate-400">
                   <span className="font-semibold text-slate-300">Word:</span> {currentWord?.korean}
                 </p>
                 <p className="text-sm text-slate-400">
-                  <span className="font-semibold text-slate-300">Current meaning:</span> {currentWord?.en}
+                  <span className="font-semibold text-slate-300">
+                    Current {REPORT_FIELD_LABELS[debugField].toLowerCase()}:
+                  </span>{" "}
+                  {reportedFieldValue || "—"}
                 </p>
               </div>
 
+              {duplicateReport && (
+                <div className="rounded-md border border-amber-900/60 bg-amber-950/30 p-2 text-xs text-amber-200">
+                  You already reported this ({REPORT_STATUS_LABELS[duplicateReport.status].toLowerCase()}):
+                  “{duplicateReport.corrected_meaning}”. Submitting will update that report.
+                </div>
+              )}
+
               <div className="space-y-2">
                 <label className="block text-sm font-medium text-slate-300">
-                  Correct meaning:
+                  Correct {REPORT_FIELD_LABELS[debugField].toLowerCase()}:
                 </label>
                 <input
                   type="text"
                   value={debugCorrectedMeaning}
                   onChange={(e) => setDebugCorrectedMeaning(e.target.value)}
-                  placeholder="Enter the correct meaning..."
+                  placeholder={`Enter the correct ${REPORT_FIELD_LABELS[debugField].toLowerCase()}...`}
                   className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-500/60"
                   autoFocus
                 />
@@ -1495,11 +2931,7 @@ export default function TypingGame() {
 
               <div className="flex gap-3 pt-2">
                 <button
-                  onClick={() => {
-                    setShowDebugModal(false);
-                    setDebugCorrectedMeaning("");
-                    setDebugNotes("");
-                  }}
+                  onClick={closeDebugModal}
                   disabled={isSubmittingDebug}
                   className="flex-1 rounded-lg border border-slate-600 bg-slate-900 px-4 py-2 text-sm font-medium text-slate-100 hover:bg-slate-800 transition disabled:opacity-50"
                 >
@@ -1510,7 +2942,11 @@ export default function TypingGame() {
                   disabled={isSubmittingDebug}
                   className="flex-1 rounded-lg bg-orange-600 px-4 py-2 text-sm font-medium text-white hover:bg-orange-500 transition disabled:opacity-50"
                 >
-                  {isSubmittingDebug ? "Submitting..." : "Submit Report"}
+                  {isSubmittingDebug
+                    ? "Submitting..."
+                    : duplicateReport
+                      ? "Update Report"
+                      : "Submit Report"}
                 </button>
               </div>
             </div>
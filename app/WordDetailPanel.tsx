@@ -0,0 +1,162 @@
+import type { Word } from "../data/words";
+import type { Deck } from "../lib/supabase";
+import type { SrsState } from "../lib/srs";
+import AddToDeckSelect from "./AddToDeckSelect";
+import SenseList from "./SenseList";
+
+// What the user has done with a word so far (from word_reviews and the
+// learned/review lists; empty when signed out and not practiced this session)
+export type WordHistory = {
+  recall: SrsState | null;
+  meaning: SrsState | null;
+  isLearned: boolean;
+  isInReview: boolean;
+};
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString() : "never";
+
+function ReviewSummary({ label, state }: { label: string; state: SrsState | null }) {
+  if (!state) {
+    return (
+      <div className="text-slate-500">
+        {label}: not practiced yet
+      </div>
+    );
+  }
+  return (
+    <div>
+      <span className="font-medium text-slate-200">{label}:</span>{" "}
+      {state.repetitions} in a row · ease {state.ease.toFixed(2)} · every{" "}
+      {state.interval_days} d · {state.lapses} lapse{state.lapses !== 1 ? "s" : ""}
+      <div className="text-slate-500">
+        Last reviewed {formatDate(state.last_reviewed_at)} · due {formatDate(state.due_at)}
+      </div>
+    </div>
+  );
+}
+
+// Dictionary Mode detail view for one word: every field, external links,
+// the user's history with the word, and quick actions.
+export default function WordDetailPanel({
+  word,
+  level,
+  history,
+  onPractice,
+  onAddToReview,
+  decks = [],
+  onAddToDeck,
+  onClose,
+}: {
+  word: Word;
+  level: number | null;
+  history: WordHistory;
+  onPractice: () => void;
+  onAddToReview: () => void;
+  decks?: Deck[];
+  onAddToDeck?: (deckId: string) => void;
+  onClose: () => void;
+}) {
+  const fields: { label: string; value: string | number | null | undefined }[] = [
+    { label: "Hanja", value: word.hanja },
+    { label: "Chinese", value: word.zh },
+    { label: "Class", value: word.classification },
+    { label: "Frequency rank", value: word.frequency },
+    { label: "Complexity", value: word.complexity },
+    { label: "Level", value: level },
+  ];
+
+  const links = [
+    { label: "WordReference", href: word.wordreferencelink },
+    { label: "Wiktionary", href: word.wiktionarylink },
+    {
+      label: "YouGlish",
+      href: `https://youglish.com/pronounce/${encodeURIComponent(word.korean)}/korean`,
+    },
+  ];
+
+  return (
+    <div className="space-y-4 rounded-lg border border-emerald-900/60 bg-slate-900 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-3xl font-semibold text-emerald-300">{word.korean}</div>
+          <div className="mt-1 text-sm text-slate-200">
+            <SenseList senses={word.senses} />
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-xl"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs md:grid-cols-3">
+        {fields.map((field) => (
+          <div key={field.label}>
+            <dt className="text-slate-500">{field.label}</dt>
+            <dd className="text-slate-200">{field.value ?? "—"}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {links
+          .filter((link) => link.href)
+          .map((link) => (
+            <a
+              key={link.label}
+              href={link.href ?? undefined}
+              target="_blank"
+              rel="noreferrer"
+              className="text-sky-400 underline underline-offset-2 hover:text-sky-300"
+            >
+              Open in {link.label}
+            </a>
+          ))}
+      </div>
+
+      <div className="space-y-2 rounded-md bg-slate-800/60 p-3 text-xs text-slate-300">
+        <div className="font-semibold text-slate-100">
+          Your history
+          {history.isLearned && (
+            <span className="ml-2 rounded bg-emerald-900/60 px-1.5 py-0.5 font-normal text-emerald-300">
+              Learned
+            </span>
+          )}
+          {history.isInReview && (
+            <span className="ml-2 rounded bg-amber-900/60 px-1.5 py-0.5 font-normal text-amber-300">
+              To review
+            </span>
+          )}
+        </div>
+        <ReviewSummary label="Recall" state={history.recall} />
+        <ReviewSummary label="Meaning" state={history.meaning} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onPractice}
+          className="rounded-md bg-sky-600 px-4 py-1.5 text-xs font-medium hover:bg-sky-500 transition"
+        >
+          Practice now
+        </button>
+        <button
+          type="button"
+          onClick={onAddToReview}
+          disabled={history.isInReview}
+          className="rounded-md bg-amber-600 px-4 py-1.5 text-xs font-medium hover:bg-amber-500 disabled:opacity-40 transition"
+        >
+          {history.isInReview ? "In review" : "Add to review"}
+        </button>
+        {onAddToDeck && (
+          <AddToDeckSelect decks={decks} wordIds={[word.id]} onAdd={onAddToDeck} />
+        )}
+      </div>
+    </div>
+  );
+}
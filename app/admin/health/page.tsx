@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  checkSchemaHealth,
+  EXPECTED_SCHEMA,
+  type SchemaAdapter,
+  type SchemaIssue,
+} from "@/lib/schema";
+import {
+  detectSchema,
+  fetchIsAdmin,
+  fetchSchemaSnapshot,
+  getSession,
+  isSupabaseConfigured,
+  probeTables,
+} from "@/lib/supabase";
+
+type Access = "checking" | "unconfigured" | "signed-out" | "denied" | "admin";
+
+// Result of a check: full (schema_health() is installed) or only which
+// tables exist (false = missing, null = couldn't tell)
+type Report =
+  | { kind: "full"; issues: SchemaIssue[] }
+  | { kind: "tables"; tables: Map<string, boolean | null>; reason: string };
+
+// Database health for admins: which column names the app detected, and what
+// the database is missing compared to the SQL setup files (tables, row level
+// security, unique indexes, policies). See SCHEMA_HEALTH_SETUP.sql.
+export default function SchemaHealthPage() {
+  const [access, setAccess] = useState<Access>(isSupabaseConfigured ? "checking" : "unconfigured");
+  const [schema, setSchema] = useState<SchemaAdapter | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function runChecks() {
+    setBusy(true);
+    const [detected, snapshot] = await Promise.all([detectSchema(), fetchSchemaSnapshot()]);
+    setSchema(detected);
+    if (snapshot.data) {
+      setReport({ kind: "full", issues: checkSchemaHealth(snapshot.data) });
+    } else {
+      const tables = await probeTables(EXPECTED_SCHEMA.map((spec) => spec.table));
+      setReport({ kind: "tables", tables, reason: snapshot.error?.message ?? "unknown error" });
+    }
+    setBusy(false);
+  }
+
+  useEffect(() => {
+    if (!isSupabaseConfigured) return;
+    (async () => {
+      const { session } = await getSession();
+      if (!session?.user) {
+        setAccess("signed-out");
+        return;
+      }
+      const { data: isAdmin } = await fetchIsAdmin(session.user.id);
+      if (!isAdmin) {
+        setAccess("denied");
+        return;
+      }
+      setAccess("admin");
+      await runChecks();
+    })();
+  }, []);
+
+  if (access !== "admin") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-950 px-4 text-slate-50">
+        <div className="w-full max-w-sm space-y-3 rounded-xl border border-slate-800 bg-slate-900/70 p-6 text-sm">
+          <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+            Korean Typing Trainer · Admin
+          </div>
+          {access === "checking" && <p className="text-slate-400">Checking access...</p>}
+          {access === "unconfigured" && (
+            <p className="text-slate-300">The health check needs Supabase, which isn&apos;t configured here.</p>
+          )}
+          {access === "signed-out" && (
+            <p className="text-slate-300">Sign in on the practice page first.</p>
+          )}
+          {access === "denied" && (
+            <p className="text-rose-300">This page is only available to admins.</p>
+          )}
+          <Link href="/" className="text-sky-400 underline underline-offset-2 hover:text-sky-300">
+            Back to practice
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const issuesFor = (table: string) =>
+    report?.kind === "full" ? report.issues.filter((issue) => issue.table === table) : [];
+
+  const renderStatus = (table: string) => {
+    if (!report) return <span className="text-slate-500">…</span>;
+    if (report.kind === "tables") {
+      const exists = report.tables.get(table);
+      if (exists === true) return <span className="text-emerald-300">exists</span>;
+      if (exists === false) return <span className="text-rose-300">missing</span>;
+      return <span className="text-amber-300">couldn&apos;t check</span>;
+    }
+    const issues = issuesFor(table);
+    if (issues.length === 0) return <span className="text-emerald-300">OK</span>;
+    return (
+      <ul className="space-y-0.5 text-rose-300">
+        {issues.map((issue) => (
+          <li key={issue.detail}>{issue.detail}</li>
+        ))}
+      </ul>
+    );
+  };
+
+  const issueCount = report?.kind === "full" ? report.issues.length : null;
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-8 text-slate-50">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+              Korean Typing Trainer · Admin
+            </div>
+            <h1 className="text-lg font-semibold">Database health</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={runChecks}
+              className="rounded-md bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 disabled:opacity-40 transition"
+            >
+              {busy ? "Checking..." : "Check again"}
+            </button>
+            <Link href="/admin" className="text-xs text-sky-400 underline underline-offset-2 hover:text-sky-300">
+              Back to reports
+            </Link>
+          </div>
+        </div>
+
+        <section className="space-y-2 rounded-lg border border-slate-800 bg-slate-900/70 p-4 text-sm">
+          <h2 className="text-sm font-semibold text-slate-200">Column names</h2>
+          {schema ? (
+            <ul className="space-y-1 text-slate-300">
+              <li>
+                user_stats:{" "}
+                {schema.stats === "canonical"
+                  ? "total_score / highest_streak / current_level"
+                  : "legacy score / streak / level"}
+                {!schema.statsWordCount && " (no total_words_completed)"}
+              </li>
+              <li>learned_words: learn time in {schema.learnedAt}</li>
+              {(schema.learnedWordData || schema.reviewWordData) && (
+                <li>
+                  word_data snapshots written to{" "}
+                  {[schema.learnedWordData && "learned_words", schema.reviewWordData && "review_words"]
+                    .filter(Boolean)
+                    .join(" and ")}
+                </li>
+              )}
+              {!schema.reportField && <li>reported_meanings: no field column (English reports only)</li>}
+            </ul>
+          ) : (
+            <p className="text-slate-500">Detecting...</p>
+          )}
+        </section>
+
+        <section className="space-y-3 rounded-lg border border-slate-800 bg-slate-900/70 p-4 text-sm">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-200">Setup</h2>
+            {issueCount !== null && (
+              <span className={issueCount === 0 ? "text-xs text-emerald-300" : "text-xs text-rose-300"}>
+                {issueCount === 0 ? "Everything in place" : `${issueCount} issue${issueCount !== 1 ? "s" : ""}`}
+              </span>
+            )}
+          </div>
+          {report?.kind === "tables" && (
+            <p className="text-xs text-amber-300">
+              Only checked which tables exist: schema_health() failed ({report.reason}). Run
+              SCHEMA_HEALTH_SETUP.sql to check indexes and policies too.
+            </p>
+          )}
+          <table className="w-full text-left text-xs">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Table</th>
+                <th className="py-1 pr-3 font-medium">Set up by</th>
+                <th className="py-1 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {EXPECTED_SCHEMA.map((spec) => (
+                <tr key={spec.table} className="border-t border-slate-800 align-top">
+                  <td className="py-1.5 pr-3 font-mono text-slate-200">{spec.table}</td>
+                  <td className="py-1.5 pr-3 text-slate-400">{spec.setupFile}</td>
+                  <td className="py-1.5">{renderStatus(spec.table)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+}
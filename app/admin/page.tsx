@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { applyMeaningCorrections, datasetValue, wordsById } from "@/data/words";
+import {
+  groupReports,
+  REPORT_FIELDS,
+  REPORT_FIELD_LABELS,
+  type ReportGroup,
+  type ReportSuggestion,
+} from "@/lib/moderation";
+import {
+  approveMeaningCorrection,
+  fetchIsAdmin,
+  fetchMeaningCorrections,
+  fetchQueuedReports,
+  getSession,
+  isSupabaseConfigured,
+  rejectReports,
+  removeMeaningCorrection,
+  type MeaningCorrection,
+} from "@/lib/supabase";
+
+type Access = "checking" | "unconfigured" | "signed-out" | "denied" | "admin";
+
+// Suggestion being edited before approval
+type Draft = { wordId: string; reportIds: string[]; text: string };
+
+// Moderation queue for reported word data (admins only, see
+// MODERATION_SETUP.sql). Pending reports are grouped by word and field with
+// one vote per report; approving stores the value in meaning_corrections,
+// which every client applies over the dataset on load.
+export default function AdminPage() {
+  const [access, setAccess] = useState<Access>(isSupabaseConfigured ? "checking" : "unconfigured");
+  const [adminId, setAdminId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [corrections, setCorrections] = useState<MeaningCorrection[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadQueue() {
+    const [reports, approved] = await Promise.all([
+      fetchQueuedReports(),
+      fetchMeaningCorrections(),
+    ]);
+    if (reports.error || approved.error) {
+      setError((reports.error ?? approved.error)?.message ?? "Failed to load the queue");
+    }
+    applyMeaningCorrections(approved.data);
+    setGroups(groupReports(reports.data));
+    setCorrections(
+      [...approved.data].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    );
+  }
+
+  useEffect(() => {
+    if (!isSupabaseConfigured) return;
+    (async () => {
+      const { session } = await getSession();
+      if (!session?.user) {
+        setAccess("signed-out");
+        return;
+      }
+      const { data: isAdmin } = await fetchIsAdmin(session.user.id);
+      if (!isAdmin) {
+        setAccess("denied");
+        return;
+      }
+      setAdminId(session.user.id);
+      setAccess("admin");
+      await loadQueue();
+    })();
+  }, []);
+
+  async function runAction(action: () => Promise<{ error: { message: string } | null }>) {
+    setBusy(true);
+    setError("");
+    const { error } = await action();
+    if (error) setError(error.message);
+    setDraft(null);
+    await loadQueue();
+    setBusy(false);
+  }
+
+  const approve = (group: ReportGroup, text: string, reportIds: string[]) => {
+    const word = wordsById.get(group.wordId);
+    if (!word || !adminId || !text.trim()) return;
+    runAction(() => approveMeaningCorrection(adminId, word, group.field, text, reportIds));
+  };
+
+  const reject = (reportIds: string[]) => runAction(() => rejectReports(reportIds));
+
+  const revert = (wordId: string) => runAction(() => removeMeaningCorrection(wordId));
+
+  if (access !== "admin") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-950 px-4 text-slate-50">
+        <div className="w-full max-w-sm space-y-3 rounded-xl border border-slate-800 bg-slate-900/70 p-6 text-sm">
+          <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+            Korean Typing Trainer · Admin
+          </div>
+          {access === "checking" && <p className="text-slate-400">Checking access...</p>}
+          {access === "unconfigured" && (
+            <p className="text-slate-300">Moderation needs Supabase, which isn&apos;t configured here.</p>
+          )}
+          {access === "signed-out" && (
+            <p className="text-slate-300">Sign in on the practice page first.</p>
+          )}
+          {access === "denied" && (
+            <p className="text-rose-300">This page is only available to admins.</p>
+          )}
+          <Link href="/" className="text-sky-400 underline underline-offset-2 hover:text-sky-300">
+            Back to practice
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const renderSuggestion = (group: ReportGroup, suggestion: ReportSuggestion) => {
+    const isEditing = draft?.wordId === group.wordId && draft.reportIds === suggestion.reportIds;
+    const inCatalog = wordsById.has(group.wordId);
+    return (
+      <li key={suggestion.reportIds[0]} className="space-y-2 rounded-md bg-slate-800/60 p-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="text-sm text-slate-100">{suggestion.meaning}</div>
+          <span className="shrink-0 rounded bg-sky-900/60 px-1.5 py-0.5 text-xs text-sky-300">
+            {suggestion.votes} vote{suggestion.votes !== 1 ? "s" : ""}
+          </span>
+        </div>
+        {suggestion.notes.length > 0 && (
+          <ul className="space-y-0.5 text-xs text-slate-400">
+            {suggestion.notes.map((note, idx) => (
+              <li key={idx}>“{note}”</li>
+            ))}
+          </ul>
+        )}
+        {isEditing ? (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-50 outline-none focus:border-sky-500"
+              autoFocus
+            />
+            <button
+              type="button"
+              disabled={busy || !draft.text.trim()}
+              onClick={() => approve(group, draft.text, suggestion.reportIds)}
+              className="rounded-md bg-emerald-600 px-3 py-1 text-xs font-medium hover:bg-emerald-500 disabled:opacity-40 transition"
+            >
+              Approve edit
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-md bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy || !inCatalog}
+              onClick={() => approve(group, suggestion.meaning, suggestion.reportIds)}
+              className="rounded-md bg-emerald-600 px-3 py-1 text-xs font-medium hover:bg-emerald-500 disabled:opacity-40 transition"
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              disabled={busy || !inCatalog}
+              onClick={() =>
+                setDraft({ wordId: group.wordId, reportIds: suggestion.reportIds, text: suggestion.meaning })
+              }
+              className="rounded-md bg-sky-700 px-3 py-1 text-xs font-medium hover:bg-sky-600 disabled:opacity-40 transition"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => reject(suggestion.reportIds)}
+              className="rounded-md bg-rose-700 px-3 py-1 text-xs font-medium hover:bg-rose-600 disabled:opacity-40 transition"
+            >
+              Reject
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-8 text-slate-50">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+              Korean Typing Trainer · Admin
+            </div>
+            <h1 className="text-lg font-semibold">Reported words</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link href="/admin/health" className="text-xs text-sky-400 underline underline-offset-2 hover:text-sky-300">
+              Database health
+            </Link>
+            <Link href="/" className="text-xs text-sky-400 underline underline-offset-2 hover:text-sky-300">
+              Back to practice
+            </Link>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-slate-400">No reports waiting for review.</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const word = wordsById.get(group.wordId);
+              const shownNow = word ? word[group.field] ?? "—" : null;
+              return (
+                <div
+                  key={`${group.wordId}:${group.field}`}
+                  className="space-y-3 rounded-lg border border-slate-800 bg-slate-900/70 p-4"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <div className="text-2xl font-semibold text-emerald-300">
+                        {group.korean}
+                        <span className="ml-2 rounded bg-slate-800 px-1.5 py-0.5 align-middle text-xs font-normal text-slate-300">
+                          {REPORT_FIELD_LABELS[group.field]}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-500">{group.wordId}</div>
+                    </div>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => reject(group.suggestions.flatMap((s) => s.reportIds))}
+                      className="rounded-md bg-slate-700 px-3 py-1 text-xs font-medium hover:bg-slate-600 disabled:opacity-40 transition"
+                    >
+                      Reject all ({group.totalReports})
+                    </button>
+                  </div>
+                  <div className="grid gap-1 text-xs text-slate-300">
+                    <div>
+                      <span className="text-slate-500">Reported value:</span>{" "}
+                      {group.reportedMeaning || "—"}
+                    </div>
+                    {word ? (
+                      <div>
+                        <span className="text-slate-500">Shown now:</span> {shownNow}
+                        {(word[group.field] ?? null) !== datasetValue(word, group.field) && (
+                          <span className="ml-2 text-amber-300">(corrected)</span>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="text-amber-300">
+                        This word is no longer in the catalog; reports can only be rejected.
+                      </div>
+                    )}
+                  </div>
+                  <ul className="space-y-2">
+                    {group.suggestions.map((suggestion) => renderSuggestion(group, suggestion))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold text-slate-200">
+            Active corrections ({corrections.length})
+          </h2>
+          {corrections.length === 0 ? (
+            <p className="text-xs text-slate-500">None yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800 bg-slate-900/70 text-xs">
+              {corrections.map((correction) => (
+                <li key={correction.word_id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div>
+                    <span className="font-semibold text-emerald-300">{correction.korean}</span>
+                    {correction.en && (
+                      <>
+                        {" "}
+                        <span className="text-slate-500 line-through">{correction.previous_meaning}</span>{" "}
+                        <span className="text-slate-100">{correction.en}</span>
+                      </>
+                    )}
+                    {REPORT_FIELDS.filter((field) => field !== "en" && correction[field]).map((field) => (
+                      <span key={field} className="ml-2 text-slate-300">
+                        <span className="text-slate-500">{REPORT_FIELD_LABELS[field]}:</span>{" "}
+                        {correction[field]}
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => revert(correction.word_id)}
+                    className="shrink-0 rounded-md bg-slate-700 px-3 py-1 font-medium hover:bg-slate-600 disabled:opacity-40 transition"
+                  >
+                    Revert
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
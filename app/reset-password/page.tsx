@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { supabase, resetPasswordForEmail, updatePassword } from "@/lib/supabase";
+import { getSupabase, isSupabaseConfigured, resetPasswordForEmail, updatePassword } from "@/lib/supabase";
 
 type Stage = "request" | "set-password" | "done";
 
@@ -17,7 +17,8 @@ export default function ResetPasswordPage() {
   // When Supabase redirects back with a recovery token, it fires
   // an auth state change with event = "PASSWORD_RECOVERY"
   useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+    if (!isSupabaseConfigured) return;
+    const { data: { subscription } } = getSupabase().auth.onAuthStateChange(
       (event) => {
         if (event === "PASSWORD_RECOVERY") {
           setStage("set-password");
@@ -72,7 +73,14 @@ export default function ResetPasswordPage() {
           Korean Typing Trainer
         </div>
 
-        {stage === "request" && (
+        {!isSupabaseConfigured && (
+          <p className="text-sm text-slate-400">
+            Password reset needs Supabase. In the local demo, accounts live in this browser
+            only; sign up again with a new password instead.
+          </p>
+        )}
+
+        {isSupabaseConfigured && stage === "request" && (
           <>
             <h1 className="text-lg font-semibold">Reset Password</h1>
             <p className="text-sm text-slate-400">
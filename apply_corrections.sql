@@ -1,3 +1,9 @@
+-- ============================================================================
+-- NOTE: superseded by the moderation queue (MODERATION_SETUP.sql, /admin).
+-- Approved corrections are now stored in meaning_corrections and applied in
+-- the app at load time; the queries below are kept for the old manual flow.
+-- ============================================================================
+
 -- ============================================================================
 -- View Reviewed Corrections
 -- ============================================================================
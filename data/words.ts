@@ -1,10 +1,14 @@
 import topikVocab from "./topik_vocab_with_wiktionary.json";
+import { parseSenses, type Sense } from "../lib/meaning";
+import { REPORT_FIELDS, type ReportField } from "../lib/moderation";
+import { normalizeComplexity, type VocabEntry } from "../lib/vocab";
 
 // Unified word shape used by the typing game.
 export type Word = {
-  id: string; // Unique identifier
+  id: string; // Stable content-based id from the JSON, e.g. "가다-verb" (see assignWordIds in lib/vocab.ts)
   korean: string;
   en: string;
+  senses: Sense[]; // `en` parsed into numbered senses and their synonyms
   zh: string | null;
   hanja?: string | null;
   classification?: string | null;
@@ -14,31 +18,214 @@ export type Word = {
   wiktionarylink?: string | null;
 };
 
-type RawVocabEntry = {
-  korean: string;
-  en: string;
-  zh: string | null;
-  hanja: string | null;
-  classification: string | null;
-  frequency: number | null;
-  complexity: string | null;
-  wordreferencelink: string | null;
-  wiktionarylink: string | null;
-};
-
 // Full extended vocabulary list used by the app.
-export const allWords: Word[] = (topikVocab as RawVocabEntry[]).map(
-  (item, index) => ({
-    id: `word_${index}_${item.korean}`, // Create unique ID from index + korean text
+export const allWords: Word[] = (topikVocab as VocabEntry[]).map(
+  (item) => ({
+    id: item.id,
     korean: item.korean,
     en: item.en,
+    senses: parseSenses(item.en),
     zh: item.zh,
     hanja: item.hanja,
     classification: item.classification,
     frequency: item.frequency,
     // Normalize complexity: treat null or 'E' as 'D'
-    complexity: (item.complexity === null || item.complexity === "E") ? "D" : item.complexity,
+    complexity: normalizeComplexity(item.complexity),
     wordreferencelink: item.wordreferencelink,
     wiktionarylink: item.wiktionarylink,
   })
-);
\ No newline at end of file
+);
+
+// Catalog lookup by id
+export const wordsById: Map<string, Word> = new Map(allWords.map((w) => [w.id, w]));
+
+// Ids of duplicate entries removed from the dataset, and the entry they were
+// merged into, so progress saved on them still resolves
+const MERGED_WORD_IDS: Record<string, string> = {
+  "시간-noun-f551": "시간-noun-time",
+  "모양-noun-f911": "모양-noun-shape",
+  "달-noun-f1115": "달-noun-moon",
+  "법-noun-f1252": "법-noun-law",
+  "해-noun-f1551": "해-noun-year",
+  "마련-noun-f2233": "마련-noun-planning",
+  "주-noun-f2585": "주-noun-one_week",
+  "터-noun-f2982": "터-noun-one_s_status",
+  "마당-noun-f4788": "마당-noun-garden",
+  "부-noun-f5915": "부-noun-department",
+  "달러-noun-f8336": "달러-noun-dollar",
+};
+
+/**
+ * Resolve saved word ids against the current catalog. Ids that are no
+ * longer in the catalog (removed or renamed words) are returned separately.
+ */
+export function resolveWordIds(ids: string[]): { words: Word[]; orphaned: string[] } {
+  const words: Word[] = [];
+  const orphaned: string[] = [];
+  for (const id of ids) {
+    const word = wordsById.get(MERGED_WORD_IDS[id] ?? id);
+    if (word) words.push(word);
+    else orphaned.push(id);
+  }
+  return { words, orphaned };
+}
+
+// ============================================================================
+// Meaning corrections
+// ============================================================================
+// Corrections approved on the admin page (meaning_corrections table, see
+// MODERATION_SETUP.sql) replace a word's meaning, hanja, class or Chinese at
+// load time. Words are updated in place so every list already holding them
+// sees the fix.
+
+type CorrectableFields = { [F in ReportField]: string | null };
+
+// A correction row; null or missing fields keep the dataset value
+export type WordCorrection = { word_id: string } & { [F in ReportField]?: string | null };
+
+// Dataset values of every word currently corrected, to undo the overlay
+const datasetValues = new Map<string, CorrectableFields>();
+
+/**
+ * Replace the current overlay with `corrections`. Words no longer corrected
+ * go back to their dataset values; unknown ids are ignored.
+ * Returns the number of words that changed.
+ */
+export function applyMeaningCorrections(corrections: WordCorrection[]): number {
+  const next = new Map(corrections.map((c) => [c.word_id, c]));
+  let changed = 0;
+
+  for (const id of new Set([...datasetValues.keys(), ...next.keys()])) {
+    const word = wordsById.get(id);
+    if (!word) continue;
+
+    const original = datasetValues.get(id) ?? {
+      en: word.en,
+      hanja: word.hanja ?? null,
+      classification: word.classification ?? null,
+      zh: word.zh,
+    };
+    const correction = next.get(id);
+    const target = { ...original };
+    for (const field of REPORT_FIELDS) {
+      const value = correction?.[field]?.trim();
+      if (value) target[field] = value;
+    }
+
+    if (correction) datasetValues.set(id, original);
+    else datasetValues.delete(id);
+
+    if (REPORT_FIELDS.every((field) => (word[field] ?? null) === target[field])) continue;
+    word.en = target.en ?? original.en ?? "";
+    word.senses = parseSenses(word.en);
+    word.hanja = target.hanja;
+    word.classification = target.classification;
+    word.zh = target.zh;
+    changed++;
+  }
+
+  return changed;
+}
+
+/**
+ * A field's value in the bundled dataset (before corrections)
+ */
+export const datasetValue = (word: Word, field: ReportField): string | null =>
+  datasetValues.has(word.id) ? datasetValues.get(word.id)![field] : word[field] ?? null;
+
+// ============================================================================
+// Custom words
+// ============================================================================
+// Words a user imported that aren't in the dataset (custom_words table, see
+// CUSTOM_WORDS_SETUP.sql). They are only added to `wordsById`, so decks and
+// progress rows can resolve them, and never show up in the level filters.
+
+export type CustomWordEntry = {
+  word_id: string;
+  korean: string;
+  en: string;
+  hanja?: string | null;
+  classification?: string | null;
+  zh?: string | null;
+};
+
+export const CUSTOM_WORD_ID_PREFIX = "custom-";
+
+// Ids currently registered by registerCustomWords()
+const customWordIds = new Set<string>();
+
+/**
+ * Build a Word for a custom entry (no frequency, complexity or links)
+ */
+export const customWord = (entry: CustomWordEntry): Word => ({
+  id: entry.word_id,
+  korean: entry.korean,
+  en: entry.en,
+  senses: parseSenses(entry.en),
+  zh: entry.zh ?? null,
+  hanja: entry.hanja ?? null,
+  classification: entry.classification ?? null,
+  frequency: null,
+  complexity: null,
+  wordreferencelink: null,
+  wiktionarylink: null,
+});
+
+/**
+ * Replace the registered custom words with `entries`. Entries whose id is
+ * already used by a dataset word are skipped. Returns the registered words.
+ */
+export function registerCustomWords(entries: CustomWordEntry[]): Word[] {
+  for (const id of customWordIds) wordsById.delete(id);
+  customWordIds.clear();
+
+  const words: Word[] = [];
+  for (const entry of entries) {
+    if (wordsById.has(entry.word_id)) continue;
+    const word = customWord(entry);
+    wordsById.set(word.id, word);
+    customWordIds.add(word.id);
+    words.push(word);
+  }
+  return words;
+}
+
+export const isCustomWord = (word: Word): boolean => customWordIds.has(word.id);
+
+// ============================================================================
+// Legacy ids
+// ============================================================================
+// Before explicit ids, words were keyed by array position: `word_${index}_${korean}`.
+// Progress rows saved with those ids are remapped by migrateLegacyWordIds()
+// in lib/supabase.ts.
+
+const LEGACY_ID_PATTERN = /^word_(\d+)_(.*)$/;
+
+export const isLegacyWordId = (id: string): boolean => LEGACY_ID_PATTERN.test(id);
+
+/**
+ * Map a legacy id to the current id. The position is trusted when the word
+ * there still has the same spelling; otherwise the spelling is matched,
+ * narrowed down by the saved snapshot (`hint`) when several words share it.
+ * Returns null when the word can't be identified unambiguously.
+ */
+export function resolveLegacyWordId(
+  legacyId: string,
+  hint?: Partial<Pick<Word, "classification" | "en">> | null
+): string | null {
+  const match = LEGACY_ID_PATTERN.exec(legacyId);
+  if (!match) return null;
+
+  const [, index, korean] = match;
+  const atIndex = allWords[Number(index)];
+  if (atIndex && atIndex.korean === korean) return atIndex.id;
+
+  let candidates = allWords.filter((w) => w.korean === korean);
+  if (candidates.length > 1 && hint?.classification) {
+    candidates = candidates.filter((w) => w.classification === hint.classification);
+  }
+  if (candidates.length > 1 && hint?.en) {
+    candidates = candidates.filter((w) => w.en === hint.en);
+  }
+  return candidates.length === 1 ? candidates[0].id : null;
+}
@@ -0,0 +1,95 @@
+// ============================================================================
+// Delimited text (CSV / TSV)
+// ============================================================================
+// RFC 4180 style: fields may be wrapped in double quotes, quoted fields may
+// contain the delimiter, newlines and doubled quotes (""). Both \n and \r\n
+// line endings are accepted. Rows are returned as-is (no trimming), except
+// that fully empty lines are skipped.
+
+/**
+ * Parse delimited text into rows of fields
+ */
+export function parseDelimited(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  // Skip a UTF-8 byte order mark (Excel exports start with one)
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i]
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n') {
+      endRow()
+    } else if (ch === '\r') {
+      if (text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += ch
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
+
+/**
+ * Parse delimited text whose first row is a header into records keyed by
+ * the (trimmed) header names
+ */
+export function parseDelimitedRecords(
+  text: string,
+  delimiter = ','
+): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow = [], ...rows] = parseDelimited(text, delimiter)
+  const headers = headerRow.map((header) => header.trim())
+
+  const records = rows.map((row) => {
+    const record: Record<string, string> = {}
+    headers.forEach((header, idx) => {
+      record[header] = row[idx] ?? ''
+    })
+    return record
+  })
+
+  return { headers, records }
+}
+
+/**
+ * Serialize rows as delimited text. Fields containing the delimiter, quotes
+ * or line breaks are quoted, with quotes doubled.
+ */
+export function formatDelimited(rows: string[][], delimiter = ','): string {
+  const needsQuotes = (field: string) =>
+    field.includes(delimiter) || field.includes('"') || /[\r\n]/.test(field)
+  const escape = (field: string) => (needsQuotes(field) ? `"${field.replace(/"/g, '""')}"` : field)
+  return rows.map((row) => row.map(escape).join(delimiter)).join('\n') + '\n'
+}
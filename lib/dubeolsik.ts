@@ -0,0 +1,108 @@
+import { gradeInput, toKeystrokes } from './hangul'
+
+// ============================================================================
+// 2-beolsik (Dubeolsik) keyboard layout
+// ============================================================================
+// Standard KS X 5002 layout: consonants on the left hand, vowels on the right.
+// Keys are identified by KeyboardEvent.code so the mapping works no matter
+// which OS input method is active.
+
+export interface KeyDef {
+  code: string // KeyboardEvent.code, e.g. 'KeyR'
+  latin: string // QWERTY label
+  jamo: string
+  shiftJamo?: string // only for keys where Shift produces a different jamo
+}
+
+const key = (latin: string, jamo: string, shiftJamo?: string): KeyDef => ({
+  code: `Key${latin.toUpperCase()}`,
+  latin,
+  jamo,
+  shiftJamo,
+})
+
+export const DUBEOLSIK_ROWS: KeyDef[][] = [
+  [
+    key('q', 'ㅂ', 'ㅃ'),
+    key('w', 'ㅈ', 'ㅉ'),
+    key('e', 'ㄷ', 'ㄸ'),
+    key('r', 'ㄱ', 'ㄲ'),
+    key('t', 'ㅅ', 'ㅆ'),
+    key('y', 'ㅛ'),
+    key('u', 'ㅕ'),
+    key('i', 'ㅑ'),
+    key('o', 'ㅐ', 'ㅒ'),
+    key('p', 'ㅔ', 'ㅖ'),
+  ],
+  [
+    key('a', 'ㅁ'),
+    key('s', 'ㄴ'),
+    key('d', 'ㅇ'),
+    key('f', 'ㄹ'),
+    key('g', 'ㅎ'),
+    key('h', 'ㅗ'),
+    key('j', 'ㅓ'),
+    key('k', 'ㅏ'),
+    key('l', 'ㅣ'),
+  ],
+  [
+    key('z', 'ㅋ'),
+    key('x', 'ㅌ'),
+    key('c', 'ㅊ'),
+    key('v', 'ㅍ'),
+    key('b', 'ㅠ'),
+    key('n', 'ㅜ'),
+    key('m', 'ㅡ'),
+  ],
+]
+
+const ALL_KEYS = DUBEOLSIK_ROWS.flat()
+
+export interface KeyPress {
+  code: string
+  shift: boolean
+}
+
+/**
+ * Physical key (and whether Shift is needed) that produces a jamo.
+ * Returns null for jamo that are not on the keyboard (compound vowels and
+ * double finals are typed as two keys, see toKeystrokes()).
+ */
+export function keyForJamo(jamo: string): KeyPress | null {
+  for (const k of ALL_KEYS) {
+    if (k.jamo === jamo) return { code: k.code, shift: false }
+    if (k.shiftJamo === jamo) return { code: k.code, shift: true }
+  }
+  return null
+}
+
+/**
+ * Jamo produced by a physical key. Keys without a shifted jamo produce their
+ * plain jamo with Shift held, like a real 2-beolsik IME.
+ */
+export function jamoForKey(code: string, shift: boolean): string | null {
+  const k = ALL_KEYS.find((def) => def.code === code)
+  if (!k) return null
+  return shift ? (k.shiftJamo ?? k.jamo) : k.jamo
+}
+
+export type NextKey =
+  | { kind: 'key'; press: KeyPress; jamo: string }
+  | { kind: 'other'; char: string } // spaces, punctuation, Latin letters
+  | { kind: 'backspace' }
+  | { kind: 'done' }
+
+/**
+ * The next physical key to press for `target`, given what is typed so far.
+ * When the input already contains a mistake, the next key is Backspace.
+ */
+export function nextKeyFor(typed: string, target: string): NextKey {
+  if (gradeInput(typed, target).includes('incorrect')) return { kind: 'backspace' }
+
+  const typedCount = toKeystrokes(typed).length
+  const jamo = toKeystrokes(target)[typedCount]
+  if (jamo === undefined) return { kind: 'done' }
+
+  const press = keyForJamo(jamo)
+  return press ? { kind: 'key', press, jamo } : { kind: 'other', char: jamo }
+}
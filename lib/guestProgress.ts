@@ -0,0 +1,322 @@
+import type { ReviewDirection, SrsState } from './srs'
+
+// ============================================================================
+// Guest progress (IndexedDB)
+// ============================================================================
+// Signed-out practice is kept in the browser so it survives a reload: score,
+// streak and accuracy counters, the Learned / To Review lists and the
+// spaced-repetition schedules. On sign-in or sign-up mergeGuestProgress() in
+// lib/supabase.ts moves it into the account (see planGuestMerge() for the
+// rules) and the local copy is cleared, so nothing is counted twice.
+
+const DB_NAME = 'korean-typing-trainer'
+const DB_VERSION = 1
+const STORE = 'guest'
+const RECORD_KEY = 'progress'
+
+export interface GuestStats {
+  score: number
+  highest_streak: number
+  total_words_completed: number
+  correct_answers: number
+  max_level_unlocked: number
+}
+
+export interface GuestListEntry {
+  word_id: string
+  added_at: string // when the word entered the list on this device
+}
+
+export interface GuestReviewState extends SrsState {
+  word_id: string
+  direction: ReviewDirection
+}
+
+// What an interrupted merge already added to an account, so running it again
+// only adds the rest (see unmergedGuestProgress())
+export interface GuestMergeRecord {
+  user_id: string
+  fail_counts: Record<string, number> // review word fails added, by word id
+  stats: Pick<GuestStats, 'score' | 'total_words_completed' | 'correct_answers'> | null
+}
+
+export interface GuestProgress {
+  version: 1
+  stats: GuestStats
+  learned: GuestListEntry[]
+  review: (GuestListEntry & { failed_count: number })[]
+  reviews: GuestReviewState[]
+  merged?: GuestMergeRecord
+  updated_at: string
+}
+
+// What the game holds in memory; timestamps are filled in when saving
+export interface GuestSnapshot {
+  stats: GuestStats
+  learnedIds: string[]
+  reviewIds: string[]
+  reviews: GuestReviewState[]
+}
+
+/**
+ * Whether there is anything worth merging
+ */
+export const hasGuestProgress = (progress: GuestProgress | null): progress is GuestProgress =>
+  !!progress &&
+  (progress.stats.total_words_completed > 0 ||
+    progress.learned.length > 0 ||
+    progress.review.length > 0 ||
+    progress.reviews.length > 0)
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase()
+  if (!db) return null
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Load the saved guest progress (null when there is none or IndexedDB is
+ * unavailable)
+ */
+export async function loadGuestProgress(): Promise<GuestProgress | null> {
+  try {
+    const progress = await withStore<GuestProgress | undefined>('readonly', (store) =>
+      store.get(RECORD_KEY)
+    )
+    return progress?.version === 1 ? progress : null
+  } catch (err) {
+    console.error('[GuestProgress] Error loading guest progress:', err)
+    return null
+  }
+}
+
+/**
+ * Save the in-memory progress. Words already in a list keep the time they
+ * were first added; a review word's fail count is its recall lapses (at least 1).
+ */
+export async function saveGuestProgress(snapshot: GuestSnapshot): Promise<void> {
+  const previous = await loadGuestProgress()
+  const now = new Date().toISOString()
+  const addedAt = (list: GuestListEntry[] | undefined, wordId: string) =>
+    list?.find((entry) => entry.word_id === wordId)?.added_at ?? now
+  const recallLapses = new Map(
+    snapshot.reviews.filter((r) => r.direction === 'recall').map((r) => [r.word_id, r.lapses])
+  )
+
+  const progress: GuestProgress = {
+    version: 1,
+    stats: snapshot.stats,
+    learned: snapshot.learnedIds.map((word_id) => ({
+      word_id,
+      added_at: addedAt(previous?.learned, word_id),
+    })),
+    review: snapshot.reviewIds.map((word_id) => ({
+      word_id,
+      added_at: addedAt(previous?.review, word_id),
+      failed_count: Math.max(1, recallLapses.get(word_id) ?? 0),
+    })),
+    reviews: snapshot.reviews,
+    merged: previous?.merged,
+    updated_at: now,
+  }
+
+  try {
+    await withStore('readwrite', (store) => store.put(progress, RECORD_KEY))
+  } catch (err) {
+    console.error('[GuestProgress] Error saving guest progress:', err)
+  }
+}
+
+/**
+ * Note merge steps that reached the account: the review word fails and stats
+ * (totals, replacing what was noted before). Noting a different account
+ * starts over.
+ */
+export async function recordGuestMerge(
+  userId: string,
+  step: { failCounts?: Record<string, number>; stats?: GuestStats }
+): Promise<void> {
+  const progress = await loadGuestProgress()
+  if (!progress) return
+  const previous = progress.merged?.user_id === userId ? progress.merged : null
+  const merged: GuestMergeRecord = {
+    user_id: userId,
+    fail_counts: { ...previous?.fail_counts, ...step.failCounts },
+    stats: step.stats
+      ? {
+          score: step.stats.score,
+          total_words_completed: step.stats.total_words_completed,
+          correct_answers: step.stats.correct_answers,
+        }
+      : previous?.stats ?? null,
+  }
+
+  try {
+    await withStore('readwrite', (store) => store.put({ ...progress, merged }, RECORD_KEY))
+  } catch (err) {
+    console.error('[GuestProgress] Error recording guest merge:', err)
+  }
+}
+
+/**
+ * Remove the saved guest progress (after it was merged into an account)
+ */
+export async function clearGuestProgress(): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(RECORD_KEY))
+  } catch (err) {
+    console.error('[GuestProgress] Error clearing guest progress:', err)
+  }
+}
+
+// ============================================================================
+// Merge planning
+// ============================================================================
+// Rules, so a merge never counts the same thing twice:
+// - stats: points and answers are added (accuracy is recomputed from both),
+//   best streak and level take the higher value
+// - a guest word already in one of the account's lists stays where the
+//   account has it; a guest review word that is also in the account's review
+//   list adds its fails to that row; other guest words are added to the list
+//   they were in
+// - a guest schedule is only copied for a word/direction the account has
+//   never reviewed
+
+// The account side, as loaded from Supabase
+export interface AccountProgress {
+  stats: {
+    total_score: number
+    highest_streak: number
+    total_words_completed: number
+    accuracy: number
+    current_level: number
+  } | null
+  learnedIds: string[]
+  review: { id: string; word_id: string; failed_count: number }[]
+  reviewKeys: string[] // `${word_id}:${direction}` of existing schedules
+}
+
+export interface GuestMergePlan {
+  stats: AccountProgress['stats'] // new account stats; null = unchanged
+  addLearned: GuestListEntry[]
+  addReview: GuestProgress['review']
+  updateReview: { id: string; word_id: string; failed_count: number }[]
+  addReviews: GuestReviewState[]
+  alreadyTracked: number // guest words the account already had in a list
+}
+
+export interface GuestMergeSummary {
+  points: number
+  answers: number
+  learnedAdded: number
+  reviewAdded: number
+  reviewUpdated: number
+  schedulesAdded: number
+  alreadyTracked: number
+}
+
+export const reviewKey = (wordId: string, direction: ReviewDirection) => `${wordId}:${direction}`
+
+/**
+ * The guest progress minus what an earlier, interrupted merge already added
+ * to this account: fails and the counting stats are reduced by the noted
+ * amounts (best streak and level are maximums, so merging them again is harmless)
+ */
+export function unmergedGuestProgress(guest: GuestProgress, userId: string): GuestProgress {
+  const merged = guest.merged?.user_id === userId ? guest.merged : null
+  if (!merged) return guest
+
+  const done = merged.stats
+  return {
+    ...guest,
+    stats: done
+      ? {
+          ...guest.stats,
+          score: Math.max(0, guest.stats.score - done.score),
+          total_words_completed: Math.max(0, guest.stats.total_words_completed - done.total_words_completed),
+          correct_answers: Math.max(0, guest.stats.correct_answers - done.correct_answers),
+        }
+      : guest.stats,
+    review: guest.review.map((entry) => ({
+      ...entry,
+      failed_count: Math.max(0, entry.failed_count - (merged.fail_counts[entry.word_id] ?? 0)),
+    })),
+  }
+}
+
+/**
+ * Work out what a merge changes in the account (pure; see the rules above)
+ */
+export function planGuestMerge(guest: GuestProgress, account: AccountProgress): GuestMergePlan {
+  const learnedIds = new Set(account.learnedIds)
+  const reviewById = new Map(account.review.map((row) => [row.word_id, row]))
+  const reviewKeys = new Set(account.reviewKeys)
+
+  const addLearned = guest.learned.filter(
+    (entry) => !learnedIds.has(entry.word_id) && !reviewById.has(entry.word_id)
+  )
+  const addReview = guest.review.filter(
+    (entry) => !learnedIds.has(entry.word_id) && !reviewById.has(entry.word_id)
+  )
+  const updateReview = guest.review.flatMap((entry) => {
+    const row = reviewById.get(entry.word_id)
+    return row && entry.failed_count > 0
+      ? [{ ...row, failed_count: row.failed_count + entry.failed_count }]
+      : []
+  })
+  const addReviews = guest.reviews.filter(
+    (state) => !reviewKeys.has(reviewKey(state.word_id, state.direction))
+  )
+
+  const g = guest.stats
+  let stats: GuestMergePlan['stats'] = null
+  if (g.total_words_completed > 0 || g.score > 0) {
+    const a = account.stats ?? {
+      total_score: 0,
+      highest_streak: 0,
+      total_words_completed: 0,
+      accuracy: 0,
+      current_level: 1,
+    }
+    const accountCorrect = Math.round((a.accuracy / 100) * a.total_words_completed)
+    const total = a.total_words_completed + g.total_words_completed
+    stats = {
+      total_score: a.total_score + g.score,
+      highest_streak: Math.max(a.highest_streak, g.highest_streak),
+      total_words_completed: total,
+      accuracy: total === 0 ? 0 : Math.round(((accountCorrect + g.correct_answers) / total) * 100),
+      current_level: Math.max(a.current_level, g.max_level_unlocked),
+    }
+  }
+
+  return {
+    stats,
+    addLearned,
+    addReview,
+    updateReview,
+    addReviews,
+    alreadyTracked:
+      guest.learned.length + guest.review.length - addLearned.length - addReview.length - updateReview.length,
+  }
+}
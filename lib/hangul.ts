@@ -0,0 +1,357 @@
+// ============================================================================
+// Hangul composition helpers
+// ============================================================================
+// Precomposed syllables (U+AC00–U+D7A3) are laid out as
+//   0xAC00 + (initial * 21 + medial) * 28 + final
+// so every syllable can be split into its initial/medial/final jamo and
+// rebuilt from them. All jamo returned here use the compatibility block
+// (U+3131–U+318E), which is what Korean IMEs emit while composing.
+
+const SYLLABLE_BASE = 0xac00
+const SYLLABLE_LAST = 0xd7a3
+const MEDIAL_COUNT = 21
+const FINAL_COUNT = 28
+
+export const INITIALS = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ',
+  'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+]
+
+export const MEDIALS = [
+  'ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ',
+  'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ',
+]
+
+// Index 0 is "no final consonant"
+export const FINALS = [
+  '', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ',
+  'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ',
+  'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+]
+
+// Compound vowels are typed as two vowel keys on a 2-beolsik keyboard
+export const COMPOUND_MEDIALS: Record<string, [string, string]> = {
+  'ㅘ': ['ㅗ', 'ㅏ'],
+  'ㅙ': ['ㅗ', 'ㅐ'],
+  'ㅚ': ['ㅗ', 'ㅣ'],
+  'ㅝ': ['ㅜ', 'ㅓ'],
+  'ㅞ': ['ㅜ', 'ㅔ'],
+  'ㅟ': ['ㅜ', 'ㅣ'],
+  'ㅢ': ['ㅡ', 'ㅣ'],
+}
+
+// Double finals (겹받침) are typed as two consonant keys
+export const COMPOUND_FINALS: Record<string, [string, string]> = {
+  'ㄳ': ['ㄱ', 'ㅅ'],
+  'ㄵ': ['ㄴ', 'ㅈ'],
+  'ㄶ': ['ㄴ', 'ㅎ'],
+  'ㄺ': ['ㄹ', 'ㄱ'],
+  'ㄻ': ['ㄹ', 'ㅁ'],
+  'ㄼ': ['ㄹ', 'ㅂ'],
+  'ㄽ': ['ㄹ', 'ㅅ'],
+  'ㄾ': ['ㄹ', 'ㅌ'],
+  'ㄿ': ['ㄹ', 'ㅍ'],
+  'ㅀ': ['ㄹ', 'ㅎ'],
+  'ㅄ': ['ㅂ', 'ㅅ'],
+}
+
+// Conjoining jamo (U+1100 block) that some IMEs emit, mapped to compatibility jamo
+const CONJOINING_INITIAL_START = 0x1100
+const CONJOINING_MEDIAL_START = 0x1161
+const CONJOINING_FINAL_START = 0x11a8
+
+export interface SyllableParts {
+  initial: string
+  medial: string
+  final: string // '' when the syllable has no batchim
+}
+
+export const isHangulSyllable = (ch: string): boolean =>
+  ch >= '\uAC00' && ch <= '\uD7AF'
+
+export const isHangulJamo = (ch: string): boolean =>
+  (ch >= '\u3130' && ch <= '\u318F') || (ch >= '\u1100' && ch <= '\u11FF')
+
+export const isHangul = (ch: string): boolean =>
+  isHangulSyllable(ch) || isHangulJamo(ch)
+
+export const isConsonantJamo = (ch: string): boolean =>
+  INITIALS.includes(ch) || ch in COMPOUND_FINALS
+
+export const isVowelJamo = (ch: string): boolean => MEDIALS.includes(ch)
+
+/**
+ * Map a conjoining jamo (U+1100 block) to its compatibility form.
+ * Other characters are returned unchanged.
+ */
+export function toCompatibilityJamo(ch: string): string {
+  const code = ch.charCodeAt(0)
+  if (code >= CONJOINING_INITIAL_START && code < CONJOINING_INITIAL_START + INITIALS.length) {
+    return INITIALS[code - CONJOINING_INITIAL_START]
+  }
+  if (code >= CONJOINING_MEDIAL_START && code < CONJOINING_MEDIAL_START + MEDIALS.length) {
+    return MEDIALS[code - CONJOINING_MEDIAL_START]
+  }
+  if (code >= CONJOINING_FINAL_START && code < CONJOINING_FINAL_START + FINAL_COUNT - 1) {
+    return FINALS[code - CONJOINING_FINAL_START + 1]
+  }
+  return ch
+}
+
+/**
+ * Split a precomposed syllable into initial/medial/final jamo.
+ * Returns null for anything that is not a Hangul syllable.
+ */
+export function decomposeSyllable(ch: string): SyllableParts | null {
+  const code = ch.charCodeAt(0)
+  if (Number.isNaN(code) || code < SYLLABLE_BASE || code > SYLLABLE_LAST) return null
+
+  const offset = code - SYLLABLE_BASE
+  return {
+    initial: INITIALS[Math.floor(offset / (MEDIAL_COUNT * FINAL_COUNT))],
+    medial: MEDIALS[Math.floor((offset % (MEDIAL_COUNT * FINAL_COUNT)) / FINAL_COUNT)],
+    final: FINALS[offset % FINAL_COUNT],
+  }
+}
+
+/**
+ * Build a precomposed syllable from its jamo.
+ * Returns null when the combination is not a valid syllable (e.g. ㄸ as a final).
+ */
+export function composeSyllable(initial: string, medial: string, final = ''): string | null {
+  const i = INITIALS.indexOf(initial)
+  const m = MEDIALS.indexOf(medial)
+  const f = FINALS.indexOf(final)
+  if (i === -1 || m === -1 || f === -1) return null
+  return String.fromCharCode(SYLLABLE_BASE + (i * MEDIAL_COUNT + m) * FINAL_COUNT + f)
+}
+
+/**
+ * Split a compound vowel or double final into the jamo typed for it.
+ * Simple jamo (including tense consonants like ㄲ) come back as-is.
+ */
+export function splitJamo(jamo: string): string[] {
+  if (!jamo) return []
+  return COMPOUND_MEDIALS[jamo] ?? COMPOUND_FINALS[jamo] ?? [jamo]
+}
+
+/**
+ * Decompose text into the sequence of 2-beolsik keystrokes used to type it.
+ * 과 -> ㄱ ㅗ ㅏ, 읽 -> ㅇ ㅣ ㄹ ㄱ, 까 -> ㄲ ㅏ (ㄲ is one shifted key).
+ * Non-Hangul characters are passed through as single entries.
+ */
+export function toKeystrokes(text: string): string[] {
+  const keys: string[] = []
+  for (const raw of text) {
+    const ch = toCompatibilityJamo(raw)
+    const parts = decomposeSyllable(ch)
+    if (parts) {
+      keys.push(parts.initial, ...splitJamo(parts.medial), ...splitJamo(parts.final))
+    } else if (isHangulJamo(ch)) {
+      keys.push(...splitJamo(ch))
+    } else {
+      keys.push(ch)
+    }
+  }
+  return keys
+}
+
+/**
+ * Can an in-progress character still turn into `target` by typing more keys?
+ *
+ * While composing, an IME temporarily attaches the next syllable's initial
+ * consonant as a batchim (가 -> 갇 on the way to 가다), so `following` (the
+ * target's next syllable) is taken into account: 갇 is a valid step towards
+ * 가 + 다, but not towards 것.
+ */
+export function couldBecome(partial: string, target: string, following = ''): boolean {
+  if (!partial || !target) return false
+  if (partial === target) return true
+
+  const partialKeys = toKeystrokes(partial)
+  const targetKeys = toKeystrokes(target + following.slice(0, 1))
+  if (partialKeys.length > targetKeys.length) return false
+  return partialKeys.every((key, idx) => key === targetKeys[idx])
+}
+
+/**
+ * Initial consonants (초성) of every syllable: 사람 -> ㅅㄹ.
+ * Non-Hangul characters are kept so spacing stays visible.
+ */
+export function extractChoseong(text: string): string {
+  return Array.from(text)
+    .map((ch) => decomposeSyllable(ch)?.initial ?? ch)
+    .join('')
+}
+
+// ============================================================================
+// Keystroke grading
+// ============================================================================
+
+export type CharGrade = 'correct' | 'composing' | 'incorrect'
+
+/**
+ * Grade every typed character against the target word.
+ * Finished characters must match exactly; the last character is 'composing'
+ * as long as it can still become the target syllable.
+ */
+export function gradeInput(typed: string, target: string): CharGrade[] {
+  const typedChars = Array.from(typed)
+  const targetChars = Array.from(target)
+
+  return typedChars.map((ch, idx) => {
+    const targetChar = targetChars[idx]
+    if (targetChar === undefined) return 'incorrect'
+    if (ch === targetChar) return 'correct'
+
+    const isLast = idx === typedChars.length - 1
+    if (isLast && couldBecome(ch, targetChar, targetChars[idx + 1] ?? '')) {
+      return 'composing'
+    }
+    return 'incorrect'
+  })
+}
+
+/**
+ * Number of characters graded 'incorrect' for the given input.
+ */
+export function countIncorrect(typed: string, target: string): number {
+  return gradeInput(typed, target).filter((g) => g === 'incorrect').length
+}
+
+// ============================================================================
+// Syllable / jamo diff (used to explain a failed recall)
+// ============================================================================
+
+export type JamoSlot = 'initial' | 'medial' | 'final'
+
+export type JamoMistake =
+  | 'tense-vs-plain' // ㄱ vs ㄲ
+  | 'aspirated-vs-plain' // ㄱ vs ㅋ
+  | 'wrong-consonant'
+  | 'similar-vowel' // ㅐ vs ㅔ, ㅓ vs ㅗ …
+  | 'wrong-vowel'
+  | 'missing-batchim'
+  | 'extra-batchim'
+  | 'wrong-batchim'
+  | 'missing-syllable'
+  | 'extra-syllable'
+  | 'wrong-character'
+
+export interface JamoPartDiff {
+  slot: JamoSlot
+  target: string
+  typed: string
+  ok: boolean
+}
+
+export interface SyllableDiff {
+  target: string // '' for an extra typed syllable
+  typed: string // '' for a missing syllable
+  parts: JamoPartDiff[] // empty unless both sides are Hangul syllables
+  mistakes: JamoMistake[]
+}
+
+// Consonants that only differ by tension or aspiration
+const TENSE_PAIRS = [['ㄱ', 'ㄲ'], ['ㄷ', 'ㄸ'], ['ㅂ', 'ㅃ'], ['ㅅ', 'ㅆ'], ['ㅈ', 'ㅉ']]
+const ASPIRATED_GROUPS = [['ㄱ', 'ㄲ', 'ㅋ'], ['ㄷ', 'ㄸ', 'ㅌ'], ['ㅂ', 'ㅃ', 'ㅍ'], ['ㅈ', 'ㅉ', 'ㅊ']]
+// Vowels learners commonly mix up (mostly merged or close in pronunciation)
+const SIMILAR_VOWEL_GROUPS = [
+  ['ㅐ', 'ㅔ'], ['ㅒ', 'ㅖ'], ['ㅙ', 'ㅚ', 'ㅞ'], ['ㅓ', 'ㅗ'], ['ㅕ', 'ㅛ'], ['ㅜ', 'ㅡ'], ['ㅢ', 'ㅣ'],
+]
+
+const inSameGroup = (groups: string[][], a: string, b: string): boolean =>
+  groups.some((group) => group.includes(a) && group.includes(b))
+
+function classifyConsonant(target: string, typed: string): JamoMistake {
+  if (inSameGroup(TENSE_PAIRS, target, typed)) return 'tense-vs-plain'
+  if (inSameGroup(ASPIRATED_GROUPS, target, typed)) return 'aspirated-vs-plain'
+  return 'wrong-consonant'
+}
+
+function diffPair(target: string, typed: string): SyllableDiff {
+  if (!typed) return { target, typed, parts: [], mistakes: ['missing-syllable'] }
+  if (!target) return { target, typed, parts: [], mistakes: ['extra-syllable'] }
+
+  const t = decomposeSyllable(target)
+  const u = decomposeSyllable(typed)
+  if (!t || !u) {
+    return { target, typed, parts: [], mistakes: target === typed ? [] : ['wrong-character'] }
+  }
+
+  const parts: JamoPartDiff[] = [
+    { slot: 'initial', target: t.initial, typed: u.initial, ok: t.initial === u.initial },
+    { slot: 'medial', target: t.medial, typed: u.medial, ok: t.medial === u.medial },
+    { slot: 'final', target: t.final, typed: u.final, ok: t.final === u.final },
+  ]
+
+  const mistakes: JamoMistake[] = []
+  if (t.initial !== u.initial) mistakes.push(classifyConsonant(t.initial, u.initial))
+  if (t.medial !== u.medial) {
+    mistakes.push(inSameGroup(SIMILAR_VOWEL_GROUPS, t.medial, u.medial) ? 'similar-vowel' : 'wrong-vowel')
+  }
+  if (t.final !== u.final) {
+    if (!u.final) mistakes.push('missing-batchim')
+    else if (!t.final) mistakes.push('extra-batchim')
+    else {
+      const mistake = classifyConsonant(t.final, u.final)
+      mistakes.push(mistake === 'wrong-consonant' ? 'wrong-batchim' : mistake)
+    }
+  }
+
+  return { target, typed, parts, mistakes }
+}
+
+// Substitution cost: share of differing jamo slots (0 = same, 1 = unrelated)
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0
+  const pa = decomposeSyllable(a)
+  const pb = decomposeSyllable(b)
+  if (!pa || !pb) return 1
+  const differing =
+    Number(pa.initial !== pb.initial) + Number(pa.medial !== pb.medial) + Number(pa.final !== pb.final)
+  return differing / 3
+}
+
+/**
+ * Align the typed attempt with the target syllable by syllable (edit distance
+ * with a jamo-aware substitution cost, so a missing syllable doesn't shift
+ * every following one) and explain what differs inside each syllable.
+ */
+export function diffSyllables(target: string, typed: string): SyllableDiff[] {
+  const a = Array.from(target)
+  const b = Array.from(typed)
+
+  // cost[i][j] = cheapest alignment of a[0..i) with b[0..j)
+  const cost: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1]),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      )
+    }
+  }
+
+  const result: SyllableDiff[] = []
+  let i = a.length
+  let j = b.length
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1])) {
+      result.push(diffPair(a[i - 1], b[j - 1]))
+      i--
+      j--
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      result.push(diffPair(a[i - 1], ''))
+      i--
+    } else {
+      result.push(diffPair('', b[j - 1]))
+      j--
+    }
+  }
+
+  return result.reverse()
+}
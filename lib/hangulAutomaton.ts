@@ -0,0 +1,145 @@
+import {
+  COMPOUND_FINALS,
+  COMPOUND_MEDIALS,
+  FINALS,
+  INITIALS,
+  composeSyllable,
+  isVowelJamo,
+  splitJamo,
+  toKeystrokes,
+} from './hangul'
+import { jamoForKey } from './dubeolsik'
+
+// ============================================================================
+// Built-in 2-beolsik composition automaton
+// ============================================================================
+// Used when the OS has no Korean IME: raw key presses are mapped to jamo
+// (see lib/dubeolsik.ts) and the jamo sequence is composed into syllables
+// here. Composition is a pure function of the jamo sequence, so Backspace
+// simply drops the last jamo and recomposes (닭 -> 달 -> 다 -> ㄷ).
+
+interface Block {
+  initial: string
+  medial: string
+  final: string
+}
+
+const EMPTY_BLOCK: Block = { initial: '', medial: '', final: '' }
+
+// Reverse lookups: ['ㅗ', 'ㅏ'] -> 'ㅘ', ['ㄹ', 'ㄱ'] -> 'ㄺ'
+const combine = (table: Record<string, [string, string]>, a: string, b: string): string | null => {
+  for (const [compound, [first, second]] of Object.entries(table)) {
+    if (first === a && second === b) return compound
+  }
+  return null
+}
+
+const renderBlock = (block: Block): string => {
+  if (block.initial && block.medial) {
+    return composeSyllable(block.initial, block.medial, block.final) ?? ''
+  }
+  return block.initial + block.medial
+}
+
+/**
+ * Compose a sequence of jamo (one per key press) into Hangul text,
+ * following the usual 2-beolsik IME rules:
+ * - a consonant after a full syllable becomes its batchim when possible
+ * - a vowel after a batchim steals it as the next initial (갇 + ㅏ -> 가다)
+ * - compound vowels and double finals are merged (ㅗ+ㅏ -> ㅘ, ㄹ+ㄱ -> ㄺ)
+ * Non-jamo entries (spaces, punctuation) are copied as-is.
+ */
+export function composeJamo(jamo: string[]): string {
+  let output = ''
+  let block: Block = { ...EMPTY_BLOCK }
+
+  const flush = () => {
+    output += renderBlock(block)
+    block = { ...EMPTY_BLOCK }
+  }
+
+  for (const j of jamo) {
+    if (isVowelJamo(j)) {
+      if (block.final) {
+        // Move the (last part of the) batchim to a new syllable
+        const parts = splitJamo(block.final)
+        const moved = parts[parts.length - 1]
+        block.final = parts.length > 1 ? parts[0] : ''
+        flush()
+        block = { initial: moved, medial: j, final: '' }
+      } else if (block.medial) {
+        const compound = combine(COMPOUND_MEDIALS, block.medial, j)
+        if (compound) {
+          block.medial = compound
+        } else {
+          flush()
+          block.medial = j
+        }
+      } else {
+        block.medial = j
+      }
+    } else if (INITIALS.includes(j)) {
+      if (block.initial && block.medial && !block.final) {
+        if (FINALS.includes(j)) {
+          block.final = j
+        } else {
+          // ㄸ, ㅃ, ㅉ can't be a batchim
+          flush()
+          block.initial = j
+        }
+      } else if (block.final) {
+        const compound = combine(COMPOUND_FINALS, block.final, j)
+        if (compound) {
+          block.final = compound
+        } else {
+          flush()
+          block.initial = j
+        }
+      } else {
+        flush()
+        block.initial = j
+      }
+    } else {
+      flush()
+      output += j
+    }
+  }
+
+  flush()
+  return output
+}
+
+/**
+ * Apply one physical key press to the current text.
+ * Returns null when the key is not part of the layout (let the browser handle it).
+ */
+export function applyKeyPress(text: string, code: string, shift: boolean): string | null {
+  if (code === 'Backspace') {
+    return composeJamo(toKeystrokes(text).slice(0, -1))
+  }
+  if (code === 'Space') {
+    return composeJamo([...toKeystrokes(text), ' '])
+  }
+
+  const jamo = jamoForKey(code, shift)
+  if (!jamo) return null
+  return composeJamo([...toKeystrokes(text), jamo])
+}
+
+/**
+ * Convert Latin letters typed without a Korean IME into Hangul
+ * ('rkskek' -> 가나다, 'Rk' -> 까). Already-Hangul text is kept.
+ */
+export function latinToHangul(text: string): string {
+  const jamo = toKeystrokes(text).map((ch) => {
+    if (!/^[a-zA-Z]$/.test(ch)) return ch
+    const isUpper = ch !== ch.toLowerCase()
+    return jamoForKey(`Key${ch.toUpperCase()}`, isUpper) ?? ch
+  })
+  return composeJamo(jamo)
+}
+
+/**
+ * Does the text contain Latin letters (i.e. no Korean IME is active)?
+ */
+export const hasLatinLetters = (text: string): boolean => /[a-zA-Z]/.test(text)
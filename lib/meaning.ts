@@ -0,0 +1,110 @@
+// ============================================================================
+// English meanings: senses and matching
+// ============================================================================
+// Dataset meanings pack several senses into one string, e.g.
+//   "1. to be (in a place); to exist 2. to have"
+// They are parsed once at load time into senses (numbered as "1." / "1)" /
+// "(1)") and, within a sense, ';'-separated glosses (synonyms).
+// For grading and search every gloss, and every ',' / ' or ' alternative in
+// it, is accepted on its own. Answers are compared leniently: case, articles,
+// a leading "to ", parenthetical notes and punctuation are ignored, and small
+// typos are allowed.
+
+export interface Sense {
+  glosses: string[]
+}
+
+const ARTICLES = new Set(['a', 'an', 'the'])
+
+// "1. " / "1) " / "(1) " at the start or after whitespace
+const SENSE_MARKER = /(?:^|\s)(?:\(\d+\)|\d+[.)])\s*/
+
+/**
+ * Parse a raw `en` string into senses and their glosses
+ */
+export function parseSenses(en: string): Sense[] {
+  return en
+    .replace(/\s+/g, ' ')
+    .split(SENSE_MARKER)
+    .map((sense) => ({
+      glosses: sense
+        .split(';')
+        .map((gloss) => gloss.trim().replace(/\.$/, '').trim())
+        .filter((gloss) => gloss.length > 0),
+    }))
+    .filter((sense) => sense.glosses.length > 0)
+}
+
+/**
+ * Every individual answer in the senses: "to hold, to carry; to give"
+ * -> ["to hold", "to carry", "to give"]
+ */
+export function splitMeanings(senses: Sense[]): string[] {
+  return senses
+    .flatMap((sense) => sense.glosses)
+    .flatMap((gloss) => gloss.split(/,|\s+or\s+/i))
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+}
+
+/**
+ * Normalize an answer for comparison: "To be (in a place)." -> "be"
+ */
+export function normalizeMeaning(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 0 && !ARTICLES.has(w))
+
+  if (words[0] === 'to' && words.length > 1) words.shift()
+  return words.join(' ')
+}
+
+/**
+ * Levenshtein distance (small strings only)
+ */
+export function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0]
+    prev[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j]
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return prev[b.length]
+}
+
+// Typos allowed for an answer of the given length
+const allowedTypos = (length: number): number => (length <= 4 ? 0 : length <= 8 ? 1 : 2)
+
+/**
+ * Accepted answers for a word's senses, normalized and de-duplicated
+ */
+export function acceptedAnswers(senses: Sense[]): string[] {
+  return Array.from(
+    new Set(splitMeanings(senses).map(normalizeMeaning).filter((a) => a.length > 0))
+  )
+}
+
+/**
+ * Is `answer` an acceptable English meaning for any of the senses?
+ */
+export function isMeaningCorrect(answer: string, senses: Sense[]): boolean {
+  const normalized = normalizeMeaning(answer)
+  if (!normalized) return false
+
+  return acceptedAnswers(senses).some(
+    (accepted) =>
+      accepted === normalized ||
+      editDistance(accepted, normalized) <= allowedTypos(accepted.length)
+  )
+}
@@ -0,0 +1,140 @@
+// ============================================================================
+// Reported word data and the moderation queue
+// ============================================================================
+// Users report a wrong field of a word (the meaning by default) with a
+// suggested value. Pending reports are grouped by word and field, and within
+// those by suggestion: several users suggesting the same fix count as votes
+// for it. Suggestions are compared ignoring case and spacing.
+
+// Word fields that can be reported and corrected
+export const REPORT_FIELDS = ['en', 'hanja', 'classification', 'zh'] as const
+export type ReportField = (typeof REPORT_FIELDS)[number]
+
+export const REPORT_FIELD_LABELS: Record<ReportField, string> = {
+  en: 'Meaning',
+  hanja: 'Hanja',
+  classification: 'Class',
+  zh: 'Chinese',
+}
+
+// The current_meaning / corrected_meaning columns hold the reported field's
+// value (their names predate reports on other fields)
+export interface MeaningReport {
+  id: string
+  user_id: string
+  word_id: string
+  korean: string
+  field?: ReportField // missing on databases set up before REPORT_FIELDS_MIGRATION.sql
+  current_meaning: string
+  corrected_meaning: string
+  notes: string | null
+  status: ReportStatus
+  created_at: string
+  updated_at: string
+}
+
+//   pending  -> waiting for an admin; the reporter can still edit or withdraw it
+//   reviewed -> old manual workflow ("approved, not applied yet"); still queued
+//   applied  -> approved and applied through meaning_corrections
+//   rejected -> dismissed
+export type ReportStatus = 'pending' | 'reviewed' | 'applied' | 'rejected'
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  reviewed: 'Reviewed',
+  applied: 'Applied',
+  rejected: 'Rejected',
+}
+
+// Report statuses still waiting for an admin
+export const QUEUED_REPORT_STATUSES: ReportStatus[] = ['pending', 'reviewed']
+
+export const reportField = (report: MeaningReport): ReportField => report.field ?? 'en'
+
+/**
+ * The user's own pending report for the same word and field, if any
+ * (submitting again should update it instead of adding a duplicate)
+ */
+export function findPendingReport(
+  reports: MeaningReport[],
+  wordId: string,
+  field: ReportField
+): MeaningReport | null {
+  return (
+    reports.find(
+      (report) =>
+        report.word_id === wordId && reportField(report) === field && report.status === 'pending'
+    ) ?? null
+  )
+}
+
+export interface ReportSuggestion {
+  meaning: string // as written in the earliest report
+  votes: number
+  reportIds: string[]
+  notes: string[]
+}
+
+export interface ReportGroup {
+  wordId: string
+  korean: string
+  field: ReportField
+  reportedMeaning: string // the value users saw when reporting
+  suggestions: ReportSuggestion[] // most votes first
+  totalReports: number
+  firstReportedAt: string
+}
+
+const suggestionKey = (meaning: string): string =>
+  meaning.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Group reports by word, field and suggestion. Groups with the most reports
+ * come first, then the longest waiting.
+ */
+export function groupReports(reports: MeaningReport[]): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>()
+  const suggestionsByGroup = new Map<string, Map<string, ReportSuggestion>>()
+
+  const sorted = [...reports].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  for (const report of sorted) {
+    const groupKey = `${report.word_id}\u0000${reportField(report)}`
+    let group = groups.get(groupKey)
+    if (!group) {
+      group = {
+        wordId: report.word_id,
+        korean: report.korean,
+        field: reportField(report),
+        reportedMeaning: report.current_meaning,
+        suggestions: [],
+        totalReports: 0,
+        firstReportedAt: report.created_at,
+      }
+      groups.set(groupKey, group)
+      suggestionsByGroup.set(groupKey, new Map())
+    }
+
+    const key = suggestionKey(report.corrected_meaning)
+    const byKey = suggestionsByGroup.get(groupKey)!
+    let suggestion = byKey.get(key)
+    if (!suggestion) {
+      suggestion = { meaning: report.corrected_meaning.trim(), votes: 0, reportIds: [], notes: [] }
+      byKey.set(key, suggestion)
+      group.suggestions.push(suggestion)
+    }
+    suggestion.votes++
+    suggestion.reportIds.push(report.id)
+    if (report.notes?.trim()) suggestion.notes.push(report.notes.trim())
+    group.totalReports++
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      suggestions: group.suggestions.sort((a, b) => b.votes - a.votes),
+    }))
+    .sort(
+      (a, b) =>
+        b.totalReports - a.totalReports || a.firstReportedAt.localeCompare(b.firstReportedAt)
+    )
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  backoffDelay,
+  createOutbox,
+  isRetryableError,
+  memoryOutboxStorage,
+  type OutboxError,
+  type OutboxResult,
+  type OutboxStorage,
+} from './outbox'
+
+type Mutation = { kind: 'stats'; score: number } | { kind: 'grade'; word: string }
+
+const OFFLINE: OutboxError = { message: 'TypeError: Failed to fetch' }
+const REJECTED: OutboxError = { message: 'duplicate key value', code: '23505' }
+
+// A backend that fails with the queued errors first, then accepts every
+// write; `sent` records what reached it
+function standIn(...failures: OutboxError[]) {
+  const sent: Mutation[] = []
+  const execute = vi.fn(async (_userId: string, mutation: Mutation): Promise<OutboxResult> => {
+    const error = failures.shift()
+    if (error) return { error }
+    sent.push(mutation)
+    return { data: mutation, error: null }
+  })
+  return { execute, sent }
+}
+
+// A clock and timers the test moves forward by hand
+function fakeClock() {
+  let time = 0
+  let pending: { run: () => void; at: number } | null = null
+  return {
+    now: () => time,
+    setTimer: (run: () => void, ms: number) => (pending = { run, at: time + ms }),
+    clearTimer: () => {
+      pending = null
+    },
+    nextTimerAt: () => pending?.at ?? null,
+    // Move to the pending timer and let the flush it starts finish
+    async advance() {
+      if (!pending) return
+      const { run, at } = pending
+      pending = null
+      time = at
+      run()
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    },
+  }
+}
+
+function setup(failures: OutboxError[], storage: OutboxStorage<Mutation> = memoryOutboxStorage()) {
+  const backend = standIn(...failures)
+  const clock = fakeClock()
+  const outbox = createOutbox<Mutation>({
+    execute: backend.execute,
+    storage,
+    coalesceKey: (mutation) => (mutation.kind === 'stats' ? 'stats' : null),
+    now: clock.now,
+    setTimer: clock.setTimer,
+    clearTimer: clock.clearTimer,
+  })
+  outbox.setUser('user-1')
+  return { outbox, storage, clock, ...backend }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('backoffDelay', () => {
+  it('doubles per failed attempt and caps at 5 minutes', () => {
+    expect([1, 2, 3, 4].map(backoffDelay)).toEqual([2000, 4000, 8000, 16000])
+    expect(backoffDelay(20)).toBe(5 * 60 * 1000)
+  })
+})
+
+describe('isRetryableError', () => {
+  it('retries network and server errors but not request errors', () => {
+    expect(isRetryableError(OFFLINE)).toBe(true)
+    expect(isRetryableError({ message: 'Service Unavailable', code: '503' })).toBe(true)
+    expect(isRetryableError(REJECTED)).toBe(false)
+    expect(isRetryableError({ message: 'permission denied', code: '42501' })).toBe(false)
+  })
+})
+
+describe('createOutbox', () => {
+  it('sends right away when the backend accepts the write', async () => {
+    const { outbox, sent } = setup([])
+    const result = await outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+
+    expect(result).toMatchObject({ error: null, queued: false })
+    expect(sent).toEqual([{ kind: 'grade', word: '가다-verb' }])
+    expect(outbox.status().pending).toBe(0)
+  })
+
+  it('retries a failing write with exponential backoff', async () => {
+    const { outbox, clock, execute, sent } = setup([OFFLINE, OFFLINE])
+    const result = await outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+
+    expect(result.queued).toBe(true)
+    expect(outbox.status()).toMatchObject({ pending: 1, lastError: OFFLINE.message, nextAttemptAt: 2000 })
+
+    await clock.advance()
+    expect(execute).toHaveBeenCalledTimes(2)
+    expect(clock.nextTimerAt()).toBe(2000 + 4000)
+
+    await clock.advance()
+    expect(execute).toHaveBeenCalledTimes(3)
+    expect(sent).toEqual([{ kind: 'grade', word: '가다-verb' }])
+    expect(outbox.status()).toEqual({ pending: 0, lastError: null, nextAttemptAt: null })
+  })
+
+  it('keeps later writes behind a retrying one, in order', async () => {
+    const { outbox, clock, sent } = setup([OFFLINE])
+    await outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+    const second = await outbox.submit('user-1', { kind: 'grade', word: '오다-verb' })
+
+    expect(second.queued).toBe(true)
+    expect(sent).toEqual([])
+
+    await clock.advance()
+    expect(sent.map((m) => m.kind === 'grade' && m.word)).toEqual(['가다-verb', '오다-verb'])
+  })
+
+  it('keeps only the latest of coalesced writes while waiting', async () => {
+    const { outbox, sent } = setup([OFFLINE, OFFLINE])
+    await outbox.submit('user-1', { kind: 'stats', score: 1 })
+    await outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+    await outbox.submit('user-1', { kind: 'stats', score: 2 })
+    await outbox.submit('user-1', { kind: 'stats', score: 3 })
+
+    expect(outbox.status().pending).toBe(2)
+
+    await outbox.flush(true)
+    expect(sent).toEqual([
+      { kind: 'grade', word: '가다-verb' },
+      { kind: 'stats', score: 3 },
+    ])
+  })
+
+  it('drops a write the backend rejects for good and returns the error', async () => {
+    const { outbox, execute, sent } = setup([REJECTED])
+    const result = await outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+
+    expect(result).toMatchObject({ error: REJECTED, queued: false })
+    expect(execute).toHaveBeenCalledTimes(1)
+    expect(sent).toEqual([])
+    expect(outbox.status().pending).toBe(0)
+    expect(console.error).toHaveBeenCalled()
+  })
+
+  it('keeps queued writes across a reload and sends them once the user is back', async () => {
+    const storage = memoryOutboxStorage<Mutation>()
+    const before = setup([OFFLINE], storage)
+    await before.outbox.submit('user-1', { kind: 'grade', word: '가다-verb' })
+    expect(storage.load()).toHaveLength(1)
+
+    // A new page load: a fresh outbox over the same storage
+    const after = setup([], storage)
+    expect(after.sent).toEqual([])
+    await after.clock.advance()
+
+    expect(after.sent).toEqual([{ kind: 'grade', word: '가다-verb' }])
+    expect(storage.load()).toEqual([])
+  })
+
+  it("only sends the signed-in user's writes", async () => {
+    const { outbox, sent } = setup([])
+    outbox.setUser(null)
+    const result = await outbox.submit('user-2', { kind: 'grade', word: '가다-verb' })
+
+    expect(result.queued).toBe(true)
+    expect(sent).toEqual([])
+
+    outbox.setUser('user-2')
+    await outbox.flush()
+    expect(sent).toEqual([{ kind: 'grade', word: '가다-verb' }])
+  })
+})
@@ -0,0 +1,280 @@
+// ============================================================================
+// Outbox: durable write queue with retries
+// ============================================================================
+// Writes are stored before they are sent and removed only once the backend
+// accepted them (or rejected them for good), so progress survives flaky
+// connections and reloads. Entries for one user are sent strictly in order;
+// when the first one fails with a retryable error, the queue waits with
+// exponential backoff before trying again.
+//
+// The backend (`execute`), the storage and the clock are injected: the app
+// uses its progress repository and localStorage (lib/progressRepository.ts),
+// while a stand-in that fails on purpose and memoryOutboxStorage() exercise
+// the retry paths (lib/outbox.test.ts).
+
+export interface OutboxError {
+  message: string
+  code?: string
+}
+
+export interface OutboxResult<T = unknown> {
+  data?: T | null
+  error: OutboxError | null
+}
+
+export interface OutboxEntry<M> {
+  id: string
+  userId: string
+  mutation: M
+  createdAt: string
+  attempts: number // failed attempts so far
+  nextAttemptAt: number // epoch ms; 0 = right away
+  lastError: string | null
+}
+
+export interface OutboxStorage<M> {
+  load(): OutboxEntry<M>[]
+  save(entries: OutboxEntry<M>[]): void
+}
+
+export interface OutboxStatus {
+  pending: number // entries of the current user
+  lastError: string | null // why the first of them is waiting, if it failed
+  nextAttemptAt: number | null
+}
+
+export interface OutboxOptions<M> {
+  execute: (userId: string, mutation: M) => Promise<OutboxResult>
+  storage: OutboxStorage<M>
+  // Entries with the same key replace each other while waiting (e.g. stats
+  // snapshots, where only the latest matters); null = never coalesced
+  coalesceKey?: (mutation: M) => string | null
+  isRetryable?: (error: OutboxError) => boolean
+  retryDelay?: (attempts: number) => number
+  now?: () => number
+  setTimer?: (run: () => void, ms: number) => unknown
+  clearTimer?: (timer: unknown) => void
+}
+
+export interface Outbox<M> {
+  // Queue a write and try to send it right away. `queued` is true when it is
+  // still waiting (offline, or behind an earlier entry that is retrying).
+  submit: <T = unknown>(userId: string, mutation: M) => Promise<OutboxResult<T> & { queued: boolean }>
+  // Send what is due; `force` ignores the backoff (e.g. back online, "Retry now")
+  flush: (force?: boolean) => Promise<void>
+  // Only the signed-in user's entries are sent; others wait for their user
+  setUser: (userId: string | null) => void
+  status: () => OutboxStatus
+  subscribe: (listener: (status: OutboxStatus) => void) => () => void
+}
+
+/**
+ * Exponential backoff: 2 s, 4 s, 8 s, ... capped at 5 minutes
+ */
+export const backoffDelay = (attempts: number): number =>
+  Math.min(1000 * 2 ** attempts, 5 * 60 * 1000)
+
+/**
+ * Network failures and server-side outages are retried; errors the database
+ * returns for the request itself (constraints, permissions) are not, since
+ * sending it again would fail the same way.
+ */
+export const isRetryableError = (error: OutboxError): boolean =>
+  !error.code ||
+  /^PGRST00\d$/.test(error.code) ||
+  /^5\d\d$/.test(error.code) ||
+  /fetch|network|timeout/i.test(error.message)
+
+/**
+ * Storage in localStorage under `key` (empty where it's unavailable)
+ */
+export function localStorageOutbox<M>(key: string): OutboxStorage<M> {
+  return {
+    load() {
+      if (typeof localStorage === 'undefined') return []
+      try {
+        return JSON.parse(localStorage.getItem(key) ?? '[]') as OutboxEntry<M>[]
+      } catch {
+        return []
+      }
+    },
+    save(entries) {
+      if (typeof localStorage === 'undefined') return
+      if (entries.length === 0) localStorage.removeItem(key)
+      else localStorage.setItem(key, JSON.stringify(entries))
+    },
+  }
+}
+
+/**
+ * In-memory storage (for stand-ins; lost on reload)
+ */
+export function memoryOutboxStorage<M>(initial: OutboxEntry<M>[] = []): OutboxStorage<M> {
+  let saved = initial
+  return {
+    load: () => saved.map((entry) => ({ ...entry })),
+    save(entries) {
+      saved = entries.map((entry) => ({ ...entry }))
+    },
+  }
+}
+
+export function createOutbox<M>(options: OutboxOptions<M>): Outbox<M> {
+  const {
+    execute,
+    storage,
+    coalesceKey = () => null,
+    isRetryable = isRetryableError,
+    retryDelay = backoffDelay,
+    now = () => Date.now(),
+    setTimer = (run, ms) => setTimeout(run, ms),
+    clearTimer = (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+  } = options
+
+  let entries = storage.load()
+  let userId: string | null = null
+  let flushing: Promise<void> | null = null
+  let sendingId: string | null = null
+  let timer: unknown = null
+  // Results of entries whose submit() is still waiting for them
+  const waiting = new Set<string>()
+  const results = new Map<string, OutboxResult>()
+  const listeners = new Set<(status: OutboxStatus) => void>()
+
+  const own = () => entries.filter((entry) => entry.userId === userId)
+
+  const status = (): OutboxStatus => {
+    const [first] = own()
+    return {
+      pending: own().length,
+      lastError: first?.lastError ?? null,
+      nextAttemptAt: first && first.attempts > 0 ? first.nextAttemptAt : null,
+    }
+  }
+
+  const persist = () => {
+    storage.save(entries)
+    const current = status()
+    listeners.forEach((listener) => listener(current))
+  }
+
+  const schedule = (at: number) => {
+    if (timer !== null) clearTimer(timer)
+    timer = setTimer(() => {
+      timer = null
+      flush()
+    }, Math.max(0, at - now()))
+  }
+
+  async function run(force: boolean) {
+    if (force) own().forEach((entry) => (entry.nextAttemptAt = 0))
+
+    for (let entry = own()[0]; entry; entry = own()[0]) {
+      if (entry.nextAttemptAt > now()) {
+        schedule(entry.nextAttemptAt)
+        return
+      }
+
+      sendingId = entry.id
+      let result: OutboxResult
+      try {
+        result = await execute(entry.userId, entry.mutation)
+      } catch (err) {
+        result = { error: { message: err instanceof Error ? err.message : String(err) } }
+      }
+      sendingId = null
+
+      if (result.error && isRetryable(result.error)) {
+        entry.attempts += 1
+        entry.lastError = result.error.message
+        entry.nextAttemptAt = now() + retryDelay(entry.attempts)
+        console.warn(
+          `[Outbox] Write failed (attempt ${entry.attempts}), retrying in ${retryDelay(entry.attempts)} ms:`,
+          result.error.message
+        )
+        persist()
+        schedule(entry.nextAttemptAt)
+        return
+      }
+
+      if (result.error) {
+        console.error('[Outbox] Write rejected, dropping it:', result.error.message, entry.mutation)
+      }
+      entries = entries.filter((e) => e.id !== entry.id)
+      if (waiting.has(entry.id)) results.set(entry.id, result)
+      persist()
+    }
+  }
+
+  // One flush at a time; a flush requested meanwhile runs again right after,
+  // so entries added while sending are never left behind
+  let rerun = false
+  function flush(force = false): Promise<void> {
+    if (flushing) {
+      rerun = true
+      return flushing
+    }
+    flushing = (async () => {
+      try {
+        let forceRun = force
+        do {
+          rerun = false
+          await run(forceRun)
+          forceRun = false
+        } while (rerun)
+      } finally {
+        flushing = null
+      }
+    })()
+    return flushing
+  }
+
+  async function submit<T>(forUser: string, mutation: M) {
+    const key = coalesceKey(mutation)
+    if (key !== null) {
+      entries = entries.filter(
+        (e) => !(e.userId === forUser && e.id !== sendingId && coalesceKey(e.mutation) === key)
+      )
+    }
+
+    const entry: OutboxEntry<M> = {
+      id: crypto.randomUUID(),
+      userId: forUser,
+      mutation,
+      createdAt: new Date(now()).toISOString(),
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+    }
+    entries = [...entries, entry]
+    waiting.add(entry.id)
+    persist()
+
+    await flush()
+
+    const result = results.get(entry.id)
+    waiting.delete(entry.id)
+    results.delete(entry.id)
+    return result
+      ? { ...(result as OutboxResult<T>), queued: false }
+      : { data: null, error: null, queued: true }
+  }
+
+  return {
+    submit,
+    flush,
+    setUser(next) {
+      userId = next
+      persist()
+      if (next) flush()
+    },
+    status,
+    subscribe(listener) {
+      listeners.add(listener)
+      listener(status())
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { allWords } from '@/data/words'
+import { createOutbox, memoryOutboxStorage } from './outbox'
+import {
+  createLocalProgressRepository,
+  executeSyncMutation,
+  memoryDatabase,
+  type LocalDatabaseStorage,
+  type ProgressRepository,
+  type SyncMutation,
+} from './progressRepository'
+import type { SprintResult } from './sprint'
+import { QUALITY_GOOD, QUALITY_WRONG, scheduleReview, type ReviewQuality, type SrsState } from './srs'
+
+// Headless game flows against the local repository: no browser, no Supabase
+
+const [word, reportedWord] = allWords
+
+async function signedUp(storage: LocalDatabaseStorage = memoryDatabase(), email = 'learner@example.com') {
+  const repository = createLocalProgressRepository(storage)
+  const { error } = await repository.signUp(email, 'secret-password')
+  expect(error).toBeNull()
+  const { session } = await repository.getSession()
+  return { repository, storage, userId: session!.user.id }
+}
+
+// What the game does after an answer: schedule locally, then queue the write
+function grade(
+  repository: ProgressRepository,
+  userId: string,
+  previous: SrsState | null,
+  quality: ReviewQuality,
+  at: Date
+) {
+  const state = scheduleReview(previous, quality, at)
+  const mutation: SyncMutation = {
+    kind: 'grade_review',
+    word_id: word.id,
+    state,
+    quality,
+    hints_used: 1,
+    direction: 'recall',
+  }
+  return { state, mutation, send: () => executeSyncMutation(repository, userId, mutation) }
+}
+
+const listIds = async (repository: ProgressRepository, userId: string) => ({
+  learned: (await repository.fetchLearnedWords(userId)).data.map((row) => row.word_id),
+  review: (await repository.fetchReviewWords(userId)).data.map((row) => row.word_id),
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('accounts', () => {
+  it('signs up, out and back in, and restores the session after a reload', async () => {
+    const { repository, storage, userId } = await signedUp()
+    const sessions: (string | null)[] = []
+    repository.onAuthStateChange((session) => sessions.push(session?.user.id ?? null))
+    await Promise.resolve() // the restored session is reported right after subscribing
+
+    await repository.signOut()
+    expect((await repository.signIn('learner@example.com', 'wrong-password')).error?.message).toBe(
+      'Invalid login credentials'
+    )
+    expect((await repository.signIn(' Learner@Example.com', 'secret-password')).error).toBeNull()
+    expect(sessions).toEqual([userId, null, userId])
+
+    const reloaded = createLocalProgressRepository(storage)
+    expect((await reloaded.getSession()).session?.user.id).toBe(userId)
+  })
+
+  it('rejects duplicate accounts and short passwords', async () => {
+    const { repository } = await signedUp()
+    expect((await repository.signUp('learner@example.com', 'another-password')).error?.message).toBe(
+      'User already registered'
+    )
+    expect((await repository.signUp('new@example.com', '123')).error?.code).toBe('weak_password')
+  })
+})
+
+describe('recall practice', () => {
+  it('moves a missed word to review and a recalled one to learned', async () => {
+    const { repository, userId } = await signedUp()
+
+    const miss = grade(repository, userId, null, QUALITY_WRONG, new Date('2026-01-01T10:00:00Z'))
+    expect((await miss.send()).error).toBeNull()
+    expect(await listIds(repository, userId)).toEqual({ learned: [], review: [word.id] })
+
+    const hit = grade(repository, userId, miss.state, QUALITY_GOOD, new Date('2026-01-01T10:15:00Z'))
+    await hit.send()
+    expect(await listIds(repository, userId)).toEqual({ learned: [word.id], review: [] })
+
+    const [saved] = (await repository.fetchWordReviews(userId)).data
+    expect(saved).toMatchObject({ ...hit.state, word_id: word.id, total_hints_used: 2 })
+  })
+
+  it('saves a retried grade once and ignores an older one', async () => {
+    const { repository, userId } = await signedUp()
+    const miss = grade(repository, userId, null, QUALITY_WRONG, new Date('2026-01-01T10:00:00Z'))
+    await miss.send()
+    await miss.send()
+
+    const [review] = (await repository.fetchReviewWords(userId)).data
+    expect(review.failed_count).toBe(1)
+    expect((await repository.fetchWordReviews(userId)).data[0].total_hints_used).toBe(1)
+
+    const hit = grade(repository, userId, miss.state, QUALITY_GOOD, new Date('2026-01-01T10:15:00Z'))
+    await hit.send()
+    await miss.send()
+    expect((await repository.fetchWordReviews(userId)).data[0]).toMatchObject(hit.state)
+    expect(await listIds(repository, userId)).toEqual({ learned: [word.id], review: [] })
+  })
+
+  it('puts the word on the review list when a retried miss finds it missing', async () => {
+    const { repository, storage, userId } = await signedUp()
+    const miss = grade(repository, userId, null, QUALITY_WRONG, new Date('2026-01-01T10:00:00Z'))
+    await miss.send()
+
+    // The schedule was saved but the review list write was lost
+    const db = storage.load()!
+    storage.save({ ...db, review_words: [] })
+    await miss.send()
+
+    const [review] = (await repository.fetchReviewWords(userId)).data
+    expect(review).toMatchObject({ word_id: word.id, failed_count: 1 })
+  })
+
+  it('puts a learned word back up for review', async () => {
+    const { repository, userId } = await signedUp()
+    await grade(repository, userId, null, QUALITY_GOOD, new Date('2026-01-01T10:00:00Z')).send()
+    await repository.requeueWordReview(userId, word)
+
+    expect(await listIds(repository, userId)).toEqual({ learned: [], review: [word.id] })
+    expect((await repository.fetchWordReviews(userId)).data[0].repetitions).toBe(0)
+  })
+})
+
+describe('stats and sessions', () => {
+  it('creates stats on first load and keeps the latest snapshot', async () => {
+    const { repository, userId } = await signedUp()
+    expect((await repository.fetchUserStats(userId)).data).toMatchObject({ total_score: 0, current_level: 1 })
+
+    await repository.upsertUserStats(userId, { total_score: 40, highest_streak: 5 })
+    await repository.upsertUserStats(userId, { total_score: 55 })
+    expect((await repository.fetchUserStats(userId)).data).toMatchObject({
+      total_score: 55,
+      highest_streak: 5,
+      user_id: userId,
+    })
+  })
+
+  it('replaces a typing session saved again under the same id', async () => {
+    const { repository, userId } = await signedUp()
+    const session = {
+      id: 'session-1',
+      started_at: '2026-01-01T10:00:00Z',
+      words_timed: 3,
+      avg_strokes_per_minute: 120,
+      best_strokes_per_minute: 150,
+      avg_syllables_per_minute: 50,
+      avg_time_to_first_key_ms: 900,
+    }
+    await repository.upsertTypingSession(userId, session)
+    await repository.upsertTypingSession(userId, { ...session, words_timed: 8 })
+
+    const { data } = await repository.fetchTypingSessions(userId)
+    expect(data).toHaveLength(1)
+    expect(data[0].words_timed).toBe(8)
+  })
+
+  it('keeps the best sprint per mode, duration and level', async () => {
+    const { repository, userId } = await signedUp()
+    const run: SprintResult = {
+      mode: 'copy',
+      durationSeconds: 60,
+      level: 1,
+      startedAt: '2026-01-01T10:00:00Z',
+      finishedAt: '2026-01-01T10:01:00Z',
+      wordsCompleted: 10,
+      attempts: 12,
+      accuracy: 83,
+      bestStreak: 6,
+      strokesPerMinute: 140,
+      missedWordIds: [],
+    }
+    await repository.saveSprintRun(userId, 'run-1', run)
+    await repository.saveSprintRun(userId, 'run-2', { ...run, wordsCompleted: 14 })
+    await repository.saveSprintRun(userId, 'run-3', { ...run, wordsCompleted: 9 })
+
+    const { data } = await repository.fetchSprintBests(userId)
+    expect(data.size).toBe(1)
+    expect(Array.from(data.values())[0].wordsCompleted).toBe(14)
+  })
+
+  it('saves a retried sprint run once', async () => {
+    const { repository, storage, userId } = await signedUp()
+    const run: SprintResult = {
+      mode: 'recall',
+      durationSeconds: 120,
+      level: 2,
+      startedAt: '2026-01-01T10:00:00Z',
+      finishedAt: '2026-01-01T10:02:00Z',
+      wordsCompleted: 7,
+      attempts: 9,
+      accuracy: 78,
+      bestStreak: 4,
+      strokesPerMinute: 110,
+      missedWordIds: [word.id],
+    }
+    const mutation: SyncMutation = { kind: 'sprint_run', id: 'run-1', result: run }
+    await executeSyncMutation(repository, userId, mutation)
+    await executeSyncMutation(repository, userId, mutation)
+
+    expect(storage.load()!.sprint_runs).toHaveLength(1)
+  })
+})
+
+describe('reports', () => {
+  it('reports once per id, edits while pending and withdraws', async () => {
+    const { repository, userId } = await signedUp()
+    const { id, korean, en } = reportedWord
+    const report = () => repository.reportIncorrectMeaning(userId, 'report-1', id, korean, en, 'To come', '', 'en')
+
+    await report()
+    await report()
+    expect((await repository.fetchMyReports(userId)).data).toHaveLength(1)
+
+    const { data: edited } = await repository.updateMyReport(userId, 'report-1', 'To arrive', 'typo')
+    expect(edited).toMatchObject({ corrected_meaning: 'To arrive', notes: 'typo', status: 'pending' })
+
+    await repository.withdrawMyReport(userId, 'report-1')
+    expect((await repository.fetchMyReports(userId)).data).toEqual([])
+    expect((await repository.updateMyReport(userId, 'report-1', 'x', '')).error?.code).toBe('PGRST116')
+  })
+})
+
+describe('offline queue over the local repository', () => {
+  it("sends queued writes in order once the user signs in, and keeps users' progress apart", async () => {
+    const storage = memoryDatabase()
+    const first = await signedUp(storage, 'first@example.com')
+    const second = await signedUp(storage, 'second@example.com')
+
+    const outbox = createOutbox<SyncMutation>({
+      execute: (userId, mutation) => executeSyncMutation(first.repository, userId, mutation),
+      storage: memoryOutboxStorage(),
+    })
+    const miss = grade(first.repository, first.userId, null, QUALITY_WRONG, new Date('2026-01-01T10:00:00Z'))
+    expect((await outbox.submit(first.userId, miss.mutation)).queued).toBe(true)
+    await outbox.submit(first.userId, { kind: 'user_stats', stats: { total_score: 10 } })
+
+    outbox.setUser(first.userId)
+    await outbox.flush()
+
+    expect(outbox.status().pending).toBe(0)
+    expect(await listIds(first.repository, first.userId)).toEqual({ learned: [], review: [word.id] })
+    expect((await first.repository.fetchUserStats(first.userId)).data?.total_score).toBe(10)
+    expect(await listIds(second.repository, second.userId)).toEqual({ learned: [], review: [] })
+  })
+})
@@ -0,0 +1,620 @@
+import { wordsById, type Word } from '@/data/words'
+import type { MeaningReport, ReportField } from './moderation'
+import { createOutbox, localStorageOutbox, type Outbox, type OutboxResult } from './outbox'
+import { isBetterSprint, sprintBestKey, type SprintResult } from './sprint'
+import {
+  isPassingQuality,
+  markForReview,
+  type ReviewDirection,
+  type ReviewQuality,
+  type SrsState,
+} from './srs'
+import * as supabaseDb from './supabase'
+import type { LearnedWord, ReviewWord, TypingSessionStats, UserStats, WordReview } from './supabase'
+
+// ============================================================================
+// Progress repository
+// ============================================================================
+// What the game reads and writes for a signed-in user: the auth session,
+// stats (with typing sessions and sprint runs), the Learned / To Review
+// lists with their review schedules, and the user's reports. There are two
+// implementations with the same behaviour:
+// - supabaseProgressRepository: the functions in lib/supabase.ts
+// - createLocalProgressRepository(): one JSON document in localStorage (or in
+//   memory), with accounts that exist only in this browser
+// `progressRepository` is the Supabase one when NEXT_PUBLIC_SUPABASE_URL and
+// NEXT_PUBLIC_SUPABASE_ANON_KEY are set and the local one otherwise, so the
+// app runs as a local demo without a Supabase project. Everything else
+// (decks, custom words, moderation, ...) needs Supabase.
+
+export interface RepositoryError {
+  message: string
+  code?: string
+}
+
+export interface AuthSession {
+  user: { id: string; email?: string }
+}
+
+export type NewTypingSession = Omit<TypingSessionStats, 'user_id' | 'updated_at'>
+
+type Result<T> = Promise<{ data: T; error: RepositoryError | null }>
+type Done = Promise<{ error: RepositoryError | null }>
+
+export interface ProgressRepository {
+  kind: 'supabase' | 'local'
+
+  // Auth session; the listener is also called with the restored session
+  onAuthStateChange: (callback: (session: AuthSession | null) => void) => () => void
+  getSession: () => Promise<{ session: AuthSession | null; error: RepositoryError | null }>
+  signUp: (email: string, password: string) => Done
+  signIn: (email: string, password: string) => Done
+  signOut: () => Done
+
+  // Stats
+  fetchUserStats: (userId: string) => Result<UserStats | null>
+  upsertUserStats: (userId: string, stats: Partial<UserStats>) => Result<UserStats | null>
+  fetchTypingSessions: (userId: string, limit?: number) => Result<TypingSessionStats[]>
+  upsertTypingSession: (userId: string, session: NewTypingSession) => Result<TypingSessionStats | null>
+  fetchSprintBests: (userId: string) => Result<Map<string, SprintResult>>
+  saveSprintRun: (userId: string, runId: string, result: SprintResult) => Done
+
+  // Learned & review words
+  fetchLearnedWords: (userId: string) => Result<LearnedWord[]>
+  fetchReviewWords: (userId: string) => Result<ReviewWord[]>
+  fetchWordReviews: (userId: string) => Result<WordReview[]>
+  gradeWordReview: (
+    userId: string,
+    word: Word,
+    next: SrsState,
+    quality: ReviewQuality,
+    hintsUsed?: number,
+    direction?: ReviewDirection
+  ) => Result<WordReview | null>
+  requeueWordReview: (userId: string, word: Word) => Result<WordReview | null>
+
+  // Reports
+  reportIncorrectMeaning: (
+    userId: string,
+    reportId: string,
+    wordId: string,
+    korean: string,
+    currentValue: string,
+    correctedValue: string,
+    notes: string,
+    field?: ReportField
+  ) => Result<MeaningReport | null>
+  fetchMyReports: (userId: string) => Result<MeaningReport[]>
+  updateMyReport: (
+    userId: string,
+    reportId: string,
+    correctedValue: string,
+    notes: string
+  ) => Result<MeaningReport | null>
+  withdrawMyReport: (userId: string, reportId: string) => Done
+}
+
+export const supabaseProgressRepository: ProgressRepository = {
+  kind: 'supabase',
+  onAuthStateChange: supabaseDb.onAuthStateChange,
+  getSession: supabaseDb.getSession,
+  signUp: supabaseDb.signUp,
+  signIn: supabaseDb.signIn,
+  signOut: supabaseDb.signOut,
+  fetchUserStats: supabaseDb.fetchUserStats,
+  upsertUserStats: supabaseDb.upsertUserStats,
+  fetchTypingSessions: supabaseDb.fetchTypingSessions,
+  upsertTypingSession: supabaseDb.upsertTypingSession,
+  fetchSprintBests: supabaseDb.fetchSprintBests,
+  saveSprintRun: supabaseDb.saveSprintRun,
+  fetchLearnedWords: supabaseDb.fetchLearnedWords,
+  fetchReviewWords: supabaseDb.fetchReviewWords,
+  fetchWordReviews: supabaseDb.fetchWordReviews,
+  gradeWordReview: supabaseDb.gradeWordReview,
+  requeueWordReview: supabaseDb.requeueWordReview,
+  reportIncorrectMeaning: supabaseDb.reportIncorrectMeaning,
+  fetchMyReports: supabaseDb.fetchMyReports,
+  updateMyReport: supabaseDb.updateMyReport,
+  withdrawMyReport: supabaseDb.withdrawMyReport,
+}
+
+// ============================================================================
+// Local repository (localStorage / memory)
+// ============================================================================
+// The document holds the same rows as the Supabase tables, so the game can't
+// tell the two apart. Passwords are kept as SHA-256 hashes; this is a demo
+// login for one browser, not a security boundary. Every call reads the
+// document again, so several tabs see each other's writes.
+
+export interface LocalAccount {
+  id: string
+  email: string
+  password_hash: string
+  created_at: string
+}
+
+export interface LocalDatabase {
+  version: 1
+  accounts: LocalAccount[]
+  session_user_id: string | null
+  user_stats: UserStats[]
+  typing_sessions: TypingSessionStats[]
+  sprint_runs: { id: string; user_id: string; result: SprintResult }[]
+  learned_words: LearnedWord[]
+  review_words: ReviewWord[]
+  word_reviews: WordReview[]
+  reported_meanings: MeaningReport[]
+}
+
+export interface LocalDatabaseStorage {
+  load(): LocalDatabase | null
+  save(db: LocalDatabase): void
+}
+
+const emptyDatabase = (): LocalDatabase => ({
+  version: 1,
+  accounts: [],
+  session_user_id: null,
+  user_stats: [],
+  typing_sessions: [],
+  sprint_runs: [],
+  learned_words: [],
+  review_words: [],
+  word_reviews: [],
+  reported_meanings: [],
+})
+
+/**
+ * Storage in localStorage under `key` (nothing is kept where it's unavailable)
+ */
+export function localStorageDatabase(key: string): LocalDatabaseStorage {
+  return {
+    load() {
+      if (typeof localStorage === 'undefined') return null
+      try {
+        const db = JSON.parse(localStorage.getItem(key) ?? 'null') as LocalDatabase | null
+        return db?.version === 1 ? db : null
+      } catch {
+        return null
+      }
+    },
+    save(db) {
+      if (typeof localStorage === 'undefined') return
+      localStorage.setItem(key, JSON.stringify(db))
+    },
+  }
+}
+
+/**
+ * In-memory storage (headless tests; lost on reload)
+ */
+export function memoryDatabase(initial: LocalDatabase | null = null): LocalDatabaseStorage {
+  let saved = initial
+  return {
+    load: () => (saved ? structuredClone(saved) : null),
+    save(db) {
+      saved = structuredClone(db)
+    },
+  }
+}
+
+async function hashPassword(email: string, password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${email}:${password}`))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const newest = <T>(rows: T[], field: keyof T) =>
+  [...rows].sort((a, b) => String(b[field]).localeCompare(String(a[field])))
+
+export function createLocalProgressRepository(storage: LocalDatabaseStorage): ProgressRepository {
+  const listeners = new Set<(session: AuthSession | null) => void>()
+
+  const load = () => storage.load() ?? emptyDatabase()
+  // Apply a change to the stored document and return what it returns
+  function update<T>(change: (db: LocalDatabase) => T): T {
+    const db = load()
+    const result = change(db)
+    storage.save(db)
+    return result
+  }
+
+  const timestamp = () => new Date().toISOString()
+  const own = <T extends { user_id: string }>(rows: T[], userId: string) =>
+    rows.filter((row) => row.user_id === userId)
+
+  function sessionOf(db: LocalDatabase): AuthSession | null {
+    const account = db.accounts.find((a) => a.id === db.session_user_id)
+    return account ? { user: { id: account.id, email: account.email } } : null
+  }
+
+  function setSession(userId: string | null) {
+    const session = update((db) => {
+      db.session_user_id = userId
+      return sessionOf(db)
+    })
+    console.log('[Local DB] Session changed:', session?.user.email || 'no user')
+    listeners.forEach((listener) => listener(session))
+  }
+
+  function initialStats(db: LocalDatabase, userId: string): UserStats {
+    const stats: UserStats = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      total_score: 0,
+      highest_streak: 0,
+      total_words_completed: 0,
+      accuracy: 0,
+      current_level: 1,
+      updated_at: timestamp(),
+    }
+    db.user_stats.push(stats)
+    return stats
+  }
+
+  // Same list moves as gradeWordReview() in lib/supabase.ts
+  function addLearned(db: LocalDatabase, userId: string, wordId: string) {
+    const existing = db.learned_words.find((r) => r.user_id === userId && r.word_id === wordId)
+    if (existing) existing.learned_at = timestamp()
+    else db.learned_words.push({ id: crypto.randomUUID(), user_id: userId, word_id: wordId, learned_at: timestamp() })
+  }
+
+  function addReview(db: LocalDatabase, userId: string, wordId: string) {
+    const existing = db.review_words.find((r) => r.user_id === userId && r.word_id === wordId)
+    if (existing) existing.failed_count += 1
+    else
+      db.review_words.push({
+        id: crypto.randomUUID(),
+        user_id: userId,
+        word_id: wordId,
+        failed_count: 1,
+        created_at: timestamp(),
+      })
+  }
+
+  function removeListed(db: LocalDatabase, userId: string, wordId: string, list: 'learned' | 'review') {
+    const keep = (r: { user_id: string; word_id: string }) => !(r.user_id === userId && r.word_id === wordId)
+    if (list === 'learned') db.learned_words = db.learned_words.filter(keep)
+    else db.review_words = db.review_words.filter(keep)
+  }
+
+  function saveSchedule(
+    db: LocalDatabase,
+    userId: string,
+    wordId: string,
+    direction: ReviewDirection,
+    next: (previous: WordReview | null) => SrsState & Partial<WordReview>
+  ): WordReview {
+    const index = db.word_reviews.findIndex(
+      (r) => r.user_id === userId && r.word_id === wordId && r.direction === direction
+    )
+    const previous = index >= 0 ? db.word_reviews[index] : null
+    const row: WordReview = {
+      id: previous?.id ?? crypto.randomUUID(),
+      user_id: userId,
+      word_id: wordId,
+      direction,
+      last_hints_used: previous?.last_hints_used ?? 0,
+      total_hints_used: previous?.total_hints_used ?? 0,
+      ...next(previous),
+      updated_at: timestamp(),
+    }
+    if (index >= 0) db.word_reviews[index] = row
+    else db.word_reviews.push(row)
+    return row
+  }
+
+  const notFound: RepositoryError = { message: 'Report not found or no longer pending', code: 'PGRST116' }
+
+  return {
+    kind: 'local',
+
+    onAuthStateChange(callback) {
+      listeners.add(callback)
+      // Like Supabase, report the restored session once subscribed
+      queueMicrotask(() => {
+        if (listeners.has(callback)) callback(sessionOf(load()))
+      })
+      return () => {
+        listeners.delete(callback)
+      }
+    },
+
+    async getSession() {
+      return { session: sessionOf(load()), error: null }
+    },
+
+    async signUp(email, password) {
+      const normalized = email.trim().toLowerCase()
+      if (password.length < 6) {
+        return { error: { message: 'Password should be at least 6 characters.', code: 'weak_password' } }
+      }
+      const passwordHash = await hashPassword(normalized, password)
+      const account = update((db) => {
+        if (db.accounts.some((a) => a.email === normalized)) return null
+        const created: LocalAccount = {
+          id: crypto.randomUUID(),
+          email: normalized,
+          password_hash: passwordHash,
+          created_at: timestamp(),
+        }
+        db.accounts.push(created)
+        initialStats(db, created.id)
+        return created
+      })
+      if (!account) return { error: { message: 'User already registered', code: 'user_already_exists' } }
+      setSession(account.id)
+      return { error: null }
+    },
+
+    async signIn(email, password) {
+      const normalized = email.trim().toLowerCase()
+      const passwordHash = await hashPassword(normalized, password)
+      const account = load().accounts.find((a) => a.email === normalized && a.password_hash === passwordHash)
+      if (!account) return { error: { message: 'Invalid login credentials', code: 'invalid_credentials' } }
+      setSession(account.id)
+      return { error: null }
+    },
+
+    async signOut() {
+      setSession(null)
+      return { error: null }
+    },
+
+    async fetchUserStats(userId) {
+      // As with Supabase, a missing row is created and reported as null
+      const existing = update((db) => {
+        const stats = db.user_stats.find((s) => s.user_id === userId)
+        if (!stats) initialStats(db, userId)
+        return stats ?? null
+      })
+      return { data: existing, error: null }
+    },
+
+    async upsertUserStats(userId, stats) {
+      const saved = update((db) => {
+        const previous = db.user_stats.find((s) => s.user_id === userId) ?? initialStats(db, userId)
+        Object.assign(previous, stats, { id: previous.id, user_id: userId, updated_at: timestamp() })
+        return previous
+      })
+      return { data: saved, error: null }
+    },
+
+    async fetchTypingSessions(userId, limit = 30) {
+      return { data: newest(own(load().typing_sessions, userId), 'started_at').slice(0, limit), error: null }
+    },
+
+    async upsertTypingSession(userId, session) {
+      const saved = update((db) => {
+        const row: TypingSessionStats = { ...session, user_id: userId, updated_at: timestamp() }
+        db.typing_sessions = [...db.typing_sessions.filter((s) => s.id !== session.id), row]
+        return row
+      })
+      return { data: saved, error: null }
+    },
+
+    async fetchSprintBests(userId) {
+      const bests = new Map<string, SprintResult>()
+      for (const { result: run } of own(load().sprint_runs, userId)) {
+        const key = sprintBestKey(run.mode, run.durationSeconds, run.level)
+        if (isBetterSprint(run, bests.get(key) ?? null)) bests.set(key, run)
+      }
+      return { data: bests, error: null }
+    },
+
+    async saveSprintRun(userId, runId, result) {
+      update((db) => {
+        if (!db.sprint_runs.some((run) => run.id === runId)) db.sprint_runs.push({ id: runId, user_id: userId, result })
+      })
+      return { error: null }
+    },
+
+    async fetchLearnedWords(userId) {
+      return { data: newest(own(load().learned_words, userId), 'learned_at'), error: null }
+    },
+
+    async fetchReviewWords(userId) {
+      return { data: newest(own(load().review_words, userId), 'created_at'), error: null }
+    },
+
+    async fetchWordReviews(userId) {
+      const rows = own(load().word_reviews, userId)
+      return { data: rows.sort((a, b) => a.due_at.localeCompare(b.due_at)), error: null }
+    },
+
+    async gradeWordReview(userId, word, next, quality, hintsUsed = 0, direction = 'recall') {
+      const row = update((db) => {
+        const previous = db.word_reviews.find(
+          (r) => r.user_id === userId && r.word_id === word.id && r.direction === direction
+        )
+        const savedAt = previous?.last_reviewed_at ?? null
+        // Same review saved again, or an older one: see gradeWordReview() in lib/supabase.ts
+        if (previous && savedAt && next.last_reviewed_at && savedAt >= next.last_reviewed_at) {
+          if (savedAt === next.last_reviewed_at && direction === 'recall') {
+            if (isPassingQuality(quality)) {
+              removeListed(db, userId, word.id, 'review')
+              addLearned(db, userId, word.id)
+            } else {
+              removeListed(db, userId, word.id, 'learned')
+              if (!db.review_words.some((r) => r.user_id === userId && r.word_id === word.id)) {
+                addReview(db, userId, word.id)
+              }
+            }
+          }
+          return previous
+        }
+
+        const saved = saveSchedule(db, userId, word.id, direction, (prev) => ({
+          ...next,
+          last_hints_used: hintsUsed,
+          total_hints_used: (prev?.total_hints_used ?? 0) + hintsUsed,
+        }))
+        if (direction === 'recall') {
+          if (isPassingQuality(quality)) {
+            removeListed(db, userId, word.id, 'review')
+            addLearned(db, userId, word.id)
+          } else {
+            removeListed(db, userId, word.id, 'learned')
+            addReview(db, userId, word.id)
+          }
+        }
+        return saved
+      })
+      return { data: row, error: null }
+    },
+
+    async requeueWordReview(userId, word) {
+      const row = update((db) => {
+        const saved = saveSchedule(db, userId, word.id, 'recall', (previous) => markForReview(previous))
+        removeListed(db, userId, word.id, 'learned')
+        addReview(db, userId, word.id)
+        return saved
+      })
+      return { data: row, error: null }
+    },
+
+    async reportIncorrectMeaning(userId, reportId, wordId, korean, currentValue, correctedValue, notes, field = 'en') {
+      const saved = load().reported_meanings.find((r) => r.id === reportId && r.user_id === userId)
+      if (saved) return { data: saved, error: null }
+      const report: MeaningReport = {
+        id: reportId,
+        user_id: userId,
+        word_id: wordId,
+        korean,
+        field,
+        current_meaning: currentValue,
+        corrected_meaning: correctedValue,
+        notes,
+        status: 'pending',
+        created_at: timestamp(),
+        updated_at: timestamp(),
+      }
+      update((db) => db.reported_meanings.push(report))
+      return { data: report, error: null }
+    },
+
+    async fetchMyReports(userId) {
+      return { data: newest(own(load().reported_meanings, userId), 'created_at'), error: null }
+    },
+
+    async updateMyReport(userId, reportId, correctedValue, notes) {
+      const report = update((db) => {
+        const row = db.reported_meanings.find(
+          (r) => r.id === reportId && r.user_id === userId && r.status === 'pending'
+        )
+        if (row) Object.assign(row, { corrected_meaning: correctedValue, notes, updated_at: timestamp() })
+        return row ?? null
+      })
+      return report ? { data: report, error: null } : { data: null, error: notFound }
+    },
+
+    async withdrawMyReport(userId, reportId) {
+      update((db) => {
+        db.reported_meanings = db.reported_meanings.filter(
+          (r) => !(r.id === reportId && r.user_id === userId && r.status === 'pending')
+        )
+      })
+      return { error: null }
+    },
+  }
+}
+
+export const progressRepository: ProgressRepository = supabaseDb.isSupabaseConfigured
+  ? supabaseProgressRepository
+  : createLocalProgressRepository(localStorageDatabase('korean-typing-local-db'))
+
+// ============================================================================
+// Offline Write Queue (see lib/outbox.ts)
+// ============================================================================
+// Progress, stats and report writes from the game go through `syncOutbox`
+// instead of calling the repository directly: they are kept in localStorage
+// until the repository accepts them and retried with backoff, so a flaky
+// connection or a reload doesn't lose them. Words are stored by id and
+// resolved when the write is sent.
+
+export type SyncMutation =
+  | {
+      kind: 'grade_review'
+      word_id: string
+      state: SrsState // computed by the game, so a retry doesn't grade twice
+      quality: ReviewQuality
+      hints_used: number
+      direction: ReviewDirection
+    }
+  | { kind: 'requeue_review'; word_id: string }
+  | { kind: 'user_stats'; stats: Partial<UserStats> }
+  | { kind: 'typing_session'; session: NewTypingSession }
+  | { kind: 'sprint_run'; id: string; result: SprintResult } // id from the game, like reports
+  | {
+      kind: 'report'
+      id: string // generated by the game, so a retry doesn't report twice
+      word_id: string
+      korean: string
+      current_value: string
+      corrected_value: string
+      notes: string
+      field: ReportField
+    }
+  | { kind: 'report_update'; report_id: string; corrected_value: string; notes: string }
+
+/**
+ * Send one queued write to the repository
+ */
+export async function executeSyncMutation(
+  repository: ProgressRepository,
+  userId: string,
+  mutation: SyncMutation
+): Promise<OutboxResult> {
+  switch (mutation.kind) {
+    case 'grade_review':
+    case 'requeue_review': {
+      const word = wordsById.get(mutation.word_id)
+      if (!word) {
+        console.warn('[Outbox] Queued review for a word no longer in the word list:', mutation.word_id)
+        return { data: null, error: null }
+      }
+      return mutation.kind === 'grade_review'
+        ? repository.gradeWordReview(
+            userId,
+            word,
+            mutation.state,
+            mutation.quality,
+            mutation.hints_used,
+            mutation.direction
+          )
+        : repository.requeueWordReview(userId, word)
+    }
+    case 'user_stats':
+      return repository.upsertUserStats(userId, mutation.stats)
+    case 'typing_session':
+      return repository.upsertTypingSession(userId, mutation.session)
+    case 'sprint_run':
+      return repository.saveSprintRun(userId, mutation.id, mutation.result)
+    case 'report':
+      return repository.reportIncorrectMeaning(
+        userId,
+        mutation.id,
+        mutation.word_id,
+        mutation.korean,
+        mutation.current_value,
+        mutation.corrected_value,
+        mutation.notes,
+        mutation.field
+      )
+    case 'report_update':
+      return repository.updateMyReport(userId, mutation.report_id, mutation.corrected_value, mutation.notes)
+  }
+}
+
+// Only the latest stats snapshot and typing session row matter
+const syncCoalesceKey = (mutation: SyncMutation): string | null =>
+  mutation.kind === 'user_stats'
+    ? 'user_stats'
+    : mutation.kind === 'typing_session'
+      ? `typing_session:${mutation.session.id}`
+      : null
+
+export const syncOutbox: Outbox<SyncMutation> = createOutbox<SyncMutation>({
+  execute: (userId, mutation) => executeSyncMutation(progressRepository, userId, mutation),
+  storage: localStorageOutbox<SyncMutation>('korean-typing-outbox'),
+  coalesceKey: syncCoalesceKey,
+})
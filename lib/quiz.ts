@@ -0,0 +1,155 @@
+import type { Word } from '@/data/words'
+import { isHangulSyllable, toKeystrokes } from './hangul'
+import { acceptedAnswers, editDistance } from './meaning'
+
+// ============================================================================
+// Multiple-choice quiz (Quiz Mode)
+// ============================================================================
+// A question shows one side of a word (the Korean or its meaning) and four
+// options. Distractors are picked from the catalog so they are plausibly
+// confusable with the answer: same part of speech, similar frequency rank,
+// shared syllables or hanja, and a similar jamo shape.
+
+export type QuizPrompt = 'korean' | 'meaning'
+
+export interface QuizQuestion {
+  word: Word
+  prompt: QuizPrompt
+  options: Word[]
+  answerIndex: number
+}
+
+export const QUIZ_OPTION_COUNT = 4
+
+// Only the best-scoring candidates are sampled, so the same word doesn't
+// always get the exact same distractors
+const DISTRACTOR_POOL_SIZE = 12
+// Frequency ranks further apart than this don't count as "nearby"
+const FREQUENCY_WINDOW = 500
+
+interface WordShape {
+  syllables: Set<string>
+  hanja: Set<string>
+  strokes: string
+}
+
+// Shapes are derived once per word; the whole catalog is scored per question
+const shapeCache = new WeakMap<Word, WordShape>()
+
+const shapeOf = (word: Word): WordShape => {
+  let shape = shapeCache.get(word)
+  if (!shape) {
+    shape = {
+      syllables: new Set(Array.from(word.korean).filter(isHangulSyllable)),
+      hanja: new Set(Array.from(word.hanja ?? '').filter((ch) => /\p{Script=Han}/u.test(ch))),
+      strokes: toKeystrokes(word.korean).join(''),
+    }
+    shapeCache.set(word, shape)
+  }
+  return shape
+}
+
+const countShared = <T>(a: Set<T>, b: Set<T>): number => {
+  let shared = 0
+  a.forEach((item) => {
+    if (b.has(item)) shared += 1
+  })
+  return shared
+}
+
+/**
+ * How confusable `candidate` is with `word` (higher = more confusable)
+ */
+export function distractorScore(word: Word, candidate: Word): number {
+  let score = 0
+
+  if (word.classification && word.classification === candidate.classification) {
+    score += 2
+  }
+
+  if (word.frequency != null && candidate.frequency != null) {
+    const distance = Math.abs(word.frequency - candidate.frequency)
+    score += Math.max(0, 1 - distance / FREQUENCY_WINDOW)
+  }
+
+  const shape = shapeOf(word)
+  const candidateShape = shapeOf(candidate)
+  score += Math.min(2, countShared(shape.syllables, candidateShape.syllables))
+  score += Math.min(2, countShared(shape.hanja, candidateShape.hanja))
+
+  // Jamo shape: 2 for identical keystrokes, 0 for nothing in common
+  const longest = Math.max(shape.strokes.length, candidateShape.strokes.length)
+  if (longest > 0) {
+    score += 2 * (1 - editDistance(shape.strokes, candidateShape.strokes) / longest)
+  }
+
+  return score
+}
+
+
+/**
+ * Pick `count` confusable distractors for `word` from `pool`
+ */
+export function pickDistractors(
+  word: Word,
+  pool: Word[],
+  count = QUIZ_OPTION_COUNT - 1,
+  random: () => number = Math.random
+): Word[] {
+  const answers = new Set(acceptedAnswers(word.senses))
+  // A candidate with the same spelling or a shared meaning would be a
+  // second correct option
+  const isAmbiguous = (candidate: Word): boolean =>
+    candidate.id === word.id ||
+    candidate.korean === word.korean ||
+    acceptedAnswers(candidate.senses).some((answer) => answers.has(answer))
+
+  const ranked: Word[] = []
+  const scored = pool
+    .map((candidate) => ({ candidate, score: distractorScore(word, candidate) }))
+    .sort((a, b) => b.score - a.score)
+  for (const { candidate } of scored) {
+    if (ranked.length >= Math.max(count, DISTRACTOR_POOL_SIZE)) break
+    if (!isAmbiguous(candidate)) ranked.push(candidate)
+  }
+
+  const picked: Word[] = []
+  while (picked.length < count && ranked.length > 0) {
+    const [candidate] = ranked.splice(Math.floor(random() * ranked.length), 1)
+    picked.push(candidate)
+  }
+  return picked
+}
+
+/**
+ * Build a question for `word` with the answer at a random position
+ */
+export function buildQuizQuestion(
+  word: Word,
+  pool: Word[],
+  prompt: QuizPrompt,
+  random: () => number = Math.random
+): QuizQuestion {
+  const distractors = pickDistractors(word, pool, QUIZ_OPTION_COUNT - 1, random)
+  const answerIndex = Math.floor(random() * (distractors.length + 1))
+  const options = [...distractors]
+  options.splice(answerIndex, 0, word)
+  return { word, prompt, options, answerIndex }
+}
+
+/**
+ * Deterministic random source for a seed string (mulberry32 over an FNV-1a
+ * hash), so the same question renders the same options on every render
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,222 @@
+// ============================================================================
+// Database schema: column adapters and the expected setup
+// ============================================================================
+// Older deployments name some columns differently. Instead of retrying every
+// write when the database complains about a column, detectSchema() in
+// lib/supabase.ts probes the database once per session and the functions
+// there map rows through the adapter it returns:
+// - user_stats: canonical total_score / highest_streak / current_level, or
+//   legacy score / streak / level (and maybe no total_words_completed)
+// - learned_words: learned_at, or only created_at
+// - learned_words / review_words: a leftover word_data snapshot column (NOT
+//   NULL until step 1 of WORD_DATA_MIGRATION.sql); writes include a snapshot
+//   while it exists
+// - reported_meanings: no field column before REPORT_FIELDS_MIGRATION.sql
+//   (every report there is about `en`)
+//
+// EXPECTED_SCHEMA lists what the SQL setup files create, so the admin health
+// page (/admin/health) can report what a database is missing.
+
+export interface SchemaAdapter {
+  stats: 'canonical' | 'legacy'
+  statsWordCount: boolean // user_stats has total_words_completed
+  learnedAt: 'learned_at' | 'created_at'
+  learnedWordData: boolean // learned_words still has word_data
+  reviewWordData: boolean // review_words still has word_data
+  reportField: boolean // reported_meanings has field
+}
+
+export const CANONICAL_SCHEMA: SchemaAdapter = {
+  stats: 'canonical',
+  statsWordCount: true,
+  learnedAt: 'learned_at',
+  learnedWordData: false,
+  reviewWordData: false,
+  reportField: true,
+}
+
+const LEGACY_STATS_COLUMNS: Record<string, string> = {
+  total_score: 'score',
+  highest_streak: 'streak',
+  current_level: 'level',
+}
+
+/**
+ * Stats fields (canonical names) as the columns this database has
+ */
+export function toDbStats(stats: Record<string, unknown>, schema: SchemaAdapter): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(stats)) {
+    if (field === 'total_words_completed' && !schema.statsWordCount) continue
+    row[schema.stats === 'legacy' ? LEGACY_STATS_COLUMNS[field] ?? field : field] = value
+  }
+  return row
+}
+
+/**
+ * A learned_words row with its learn time in `learned_at`, whichever
+ * column holds it
+ */
+export const fromDbLearnedWord = <T extends { learned_at?: string; created_at?: string }>(
+  row: T,
+  schema: SchemaAdapter
+): T & { learned_at: string } =>
+  ({ ...row, learned_at: (schema.learnedAt === 'learned_at' ? row.learned_at : row.created_at) ?? '' })
+
+// ============================================================================
+// Expected setup
+// ============================================================================
+
+export interface ExpectedTable {
+  table: string
+  setupFile: string // where the table, its indexes and policies come from
+  uniqueColumns: string[][] // besides the primary key; upserts rely on these
+  policies: string[]
+}
+
+const ownRowPolicies = (things: string) => [
+  `Users can view their own ${things}`,
+  `Users can insert their own ${things}`,
+  `Users can update their own ${things}`,
+  `Users can delete their own ${things}`,
+]
+
+export const EXPECTED_SCHEMA: ExpectedTable[] = [
+  {
+    table: 'user_stats',
+    setupFile: 'SETUP_GUIDE.md + RLS_POLICIES.sql',
+    uniqueColumns: [['user_id']],
+    policies: ownRowPolicies('stats'),
+  },
+  {
+    table: 'learned_words',
+    setupFile: 'RECALL_MODE_SETUP.sql',
+    uniqueColumns: [['user_id', 'word_id']],
+    policies: ownRowPolicies('learned words'),
+  },
+  {
+    table: 'review_words',
+    setupFile: 'RECALL_MODE_SETUP.sql',
+    uniqueColumns: [['user_id', 'word_id']],
+    policies: ownRowPolicies('review words'),
+  },
+  {
+    table: 'word_reviews',
+    setupFile: 'SRS_SETUP.sql',
+    uniqueColumns: [['user_id', 'word_id', 'direction']],
+    policies: ownRowPolicies('word reviews'),
+  },
+  {
+    table: 'typing_sessions',
+    setupFile: 'TYPING_SPEED_SETUP.sql',
+    uniqueColumns: [],
+    policies: ownRowPolicies('typing sessions'),
+  },
+  {
+    table: 'sprint_runs',
+    setupFile: 'SPRINT_SETUP.sql',
+    uniqueColumns: [],
+    policies: ownRowPolicies('sprint runs'),
+  },
+  {
+    table: 'reported_meanings',
+    setupFile: 'REPORTED_MEANINGS.sql + REPORT_FIELDS_MIGRATION.sql + MODERATION_SETUP.sql',
+    uniqueColumns: [],
+    policies: [
+      'select_own_reports',
+      'insert_own_reports',
+      'update_own_pending_reports',
+      'delete_own_pending_reports',
+      'Admins can view all reports',
+      'Admins can update all reports',
+    ],
+  },
+  {
+    table: 'admins',
+    setupFile: 'MODERATION_SETUP.sql',
+    uniqueColumns: [],
+    policies: ['Users can view their own admin row'],
+  },
+  {
+    table: 'meaning_corrections',
+    setupFile: 'MODERATION_SETUP.sql',
+    uniqueColumns: [],
+    policies: [
+      'Anyone can view meaning corrections',
+      'Admins can insert meaning corrections',
+      'Admins can update meaning corrections',
+      'Admins can delete meaning corrections',
+    ],
+  },
+  {
+    table: 'decks',
+    setupFile: 'DECKS_SETUP.sql',
+    uniqueColumns: [['user_id', 'name']],
+    policies: ownRowPolicies('decks'),
+  },
+  {
+    table: 'deck_words',
+    setupFile: 'DECKS_SETUP.sql',
+    uniqueColumns: [['deck_id', 'word_id']],
+    policies: ownRowPolicies('deck words'),
+  },
+  {
+    table: 'custom_words',
+    setupFile: 'CUSTOM_WORDS_SETUP.sql',
+    uniqueColumns: [['user_id', 'word_id']],
+    policies: ownRowPolicies('custom words'),
+  },
+]
+
+// What schema_health() (SCHEMA_HEALTH_SETUP.sql) returns for the public schema
+export interface SchemaSnapshot {
+  tables: { name: string; rls: boolean }[]
+  unique_indexes: { table: string; name: string; columns: string[] }[]
+  policies: { table: string; name: string; command: string }[]
+}
+
+export type SchemaIssueKind = 'missing_table' | 'rls_disabled' | 'missing_unique_index' | 'missing_policy'
+
+export interface SchemaIssue {
+  table: string
+  setupFile: string
+  kind: SchemaIssueKind
+  detail: string
+}
+
+/**
+ * Compare a database snapshot with the expected setup. Unique indexes match
+ * on their column set (primary keys and UNIQUE constraints count too).
+ */
+export function checkSchemaHealth(
+  snapshot: SchemaSnapshot,
+  expected: ExpectedTable[] = EXPECTED_SCHEMA
+): SchemaIssue[] {
+  const sameColumns = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((column) => b.includes(column))
+
+  return expected.flatMap((spec): SchemaIssue[] => {
+    const issue = (kind: SchemaIssueKind, detail: string): SchemaIssue => ({
+      table: spec.table,
+      setupFile: spec.setupFile,
+      kind,
+      detail,
+    })
+
+    const table = snapshot.tables.find((t) => t.name === spec.table)
+    if (!table) return [issue('missing_table', `Table ${spec.table} does not exist`)]
+
+    const indexes = snapshot.unique_indexes.filter((i) => i.table === spec.table)
+    const policies = new Set(snapshot.policies.filter((p) => p.table === spec.table).map((p) => p.name))
+
+    return [
+      ...(table.rls ? [] : [issue('rls_disabled', 'Row level security is not enabled')]),
+      ...spec.uniqueColumns
+        .filter((columns) => !indexes.some((index) => sameColumns(index.columns, columns)))
+        .map((columns) => issue('missing_unique_index', `No unique index on (${columns.join(', ')})`)),
+      ...spec.policies
+        .filter((name) => !policies.has(name))
+        .map((name) => issue('missing_policy', `Policy "${name}" is missing`)),
+    ]
+  })
+}
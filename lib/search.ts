@@ -0,0 +1,147 @@
+import type { Word } from '@/data/words'
+import { extractChoseong, isConsonantJamo, isHangul, toKeystrokes } from './hangul'
+import { splitMeanings } from './meaning'
+
+// ============================================================================
+// Dictionary search index
+// ============================================================================
+// Built once over the whole catalog. Queries are matched by script:
+// - 초성 only (ㅅㄹ): against the initial consonants (사람, 서류, …)
+// - other Hangul: against the word and its keystrokes, so a half-composed
+//   syllable still matches (사라 -> 사랑, 갇 -> 가다)
+// - Latin: against the English meanings
+// - Han characters: against the hanja and Chinese fields
+// Results are ranked exact > prefix > substring > loose match, with the
+// frequency rank as the tie-breaker.
+
+export interface SearchEntry {
+  word: Word
+  korean: string
+  keystrokes: string
+  choseong: string
+  en: string
+  meanings: string[]
+  hanja: string
+  zh: string
+}
+
+// Lower is better
+export const MATCH_EXACT = 0
+export const MATCH_PREFIX = 1
+export const MATCH_SUBSTRING = 2
+export const MATCH_LOOSE = 3
+export type MatchRank = 0 | 1 | 2 | 3
+
+const isChoseongQuery = (query: string): boolean =>
+  Array.from(query).every((ch) => ch === ' ' || isConsonantJamo(ch))
+
+const hasHan = (text: string): boolean => /\p{Script=Han}/u.test(text)
+
+const rankText = (text: string, query: string): MatchRank | null => {
+  if (!text) return null
+  if (text === query) return MATCH_EXACT
+  if (text.startsWith(query)) return MATCH_PREFIX
+  if (text.includes(query)) return MATCH_SUBSTRING
+  return null
+}
+
+const best = (...ranks: (MatchRank | null)[]): MatchRank | null =>
+  ranks.reduce<MatchRank | null>(
+    (acc, rank) => (rank !== null && (acc === null || rank < acc) ? rank : acc),
+    null
+  )
+
+/**
+ * Precompute the searchable forms of every word
+ */
+export function buildSearchIndex(words: Word[]): SearchEntry[] {
+  return words.map((word) => ({
+    word,
+    korean: word.korean,
+    keystrokes: toKeystrokes(word.korean).join(''),
+    choseong: extractChoseong(word.korean),
+    en: word.en.toLowerCase(),
+    meanings: splitMeanings(word.senses).map((m) => m.toLowerCase().replace(/^to\s+/, '')),
+    hanja: word.hanja ?? '',
+    zh: word.zh ?? '',
+  }))
+}
+
+export interface SearchQuery {
+  kind: 'choseong' | 'hangul' | 'han' | 'latin'
+  text: string // trimmed; lowercased for Latin, spaces removed for 초성
+  keystrokes: string
+  wholeWord: RegExp | null // Latin only: the query as a whole word
+}
+
+/**
+ * Classify and normalize a raw query (null when empty)
+ */
+export function prepareQuery(raw: string): SearchQuery | null {
+  const text = raw.trim()
+  if (!text) return null
+
+  if (Array.from(text).some(isHangul)) {
+    return isChoseongQuery(text)
+      ? { kind: 'choseong', text: text.replace(/\s+/g, ''), keystrokes: '', wholeWord: null }
+      : { kind: 'hangul', text, keystrokes: toKeystrokes(text).join(''), wholeWord: null }
+  }
+  if (hasHan(text)) {
+    return { kind: 'han', text, keystrokes: '', wholeWord: null }
+  }
+
+  const lower = text.toLowerCase()
+  const escaped = lower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return { kind: 'latin', text: lower, keystrokes: '', wholeWord: new RegExp(`\\b${escaped}\\b`) }
+}
+
+/**
+ * How well does `entry` match `query`? null when it doesn't match.
+ */
+export function rankEntry(entry: SearchEntry, query: SearchQuery): MatchRank | null {
+  switch (query.kind) {
+    case 'choseong': {
+      const rank = rankText(entry.choseong, query.text)
+      return rank === MATCH_SUBSTRING ? MATCH_LOOSE : rank
+    }
+    case 'hangul': {
+      const keyRank = rankText(entry.keystrokes, query.keystrokes)
+      return best(
+        rankText(entry.korean, query.text),
+        // Partly typed last syllable: only its keystrokes line up
+        keyRank === MATCH_EXACT ? MATCH_EXACT : keyRank === null ? null : MATCH_LOOSE
+      )
+    }
+    case 'han':
+      return best(rankText(entry.hanja, query.text), rankText(entry.zh, query.text))
+    case 'latin': {
+      const meaningRank = best(...entry.meanings.map((m) => rankText(m, query.text)))
+      if (meaningRank !== null) return meaningRank
+      // Whole word somewhere in the meaning ("bank" in "river bank")
+      if (query.wholeWord?.test(entry.en)) return MATCH_SUBSTRING
+      return entry.en.includes(query.text) ? MATCH_LOOSE : null
+    }
+  }
+}
+
+/**
+ * Search the index, best matches first (frequency rank breaks ties)
+ */
+export function searchWords(index: SearchEntry[], rawQuery: string): Word[] {
+  const query = prepareQuery(rawQuery)
+  if (!query) return []
+
+  const matches: { word: Word; rank: MatchRank }[] = []
+  for (const entry of index) {
+    const rank = rankEntry(entry, query)
+    if (rank !== null) matches.push({ word: entry.word, rank })
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        (a.word.frequency ?? Number.MAX_SAFE_INTEGER) - (b.word.frequency ?? Number.MAX_SAFE_INTEGER)
+    )
+    .map(({ word }) => word)
+}
@@ -0,0 +1,136 @@
+import { countStrokes } from './typingMetrics'
+
+// ============================================================================
+// Timed sprints (60 s / 120 s / 5 min)
+// ============================================================================
+// A sprint runs on top of Copy or Recall Mode. The clock starts on the first
+// keystroke; every submitted word is recorded until time runs out, then the
+// run is summarized for the results screen and saved to sprint_runs.
+
+export const SPRINT_DURATIONS = [60, 120, 300] as const
+export type SprintDuration = (typeof SPRINT_DURATIONS)[number]
+
+export type SprintMode = 'copy' | 'recall'
+
+export interface SprintRun {
+  mode: SprintMode
+  durationSeconds: SprintDuration
+  level: number // level when the clock started
+  startedAt: number | null // epoch ms of the first keystroke, null while armed
+  attempts: number
+  completed: number
+  strokes: number // strokes of correctly completed words
+  streak: number
+  bestStreak: number
+  missedWordIds: string[]
+}
+
+export interface SprintResult {
+  mode: SprintMode
+  durationSeconds: SprintDuration
+  level: number
+  startedAt: string
+  finishedAt: string
+  wordsCompleted: number
+  attempts: number
+  accuracy: number // 0–100
+  bestStreak: number
+  strokesPerMinute: number // 타수 over the whole sprint
+  missedWordIds: string[]
+}
+
+export const formatSprintDuration = (seconds: number): string =>
+  seconds < 120 ? `${seconds}s` : `${seconds / 60} min`
+
+/**
+ * A new run, armed until the first keystroke
+ */
+export function createSprint(mode: SprintMode, durationSeconds: SprintDuration): SprintRun {
+  return {
+    mode,
+    durationSeconds,
+    level: 1,
+    startedAt: null,
+    attempts: 0,
+    completed: 0,
+    strokes: 0,
+    streak: 0,
+    bestStreak: 0,
+    missedWordIds: [],
+  }
+}
+
+/**
+ * Start the clock at the current level (no-op once started)
+ */
+export const startSprint = (run: SprintRun, now: number, level: number): SprintRun =>
+  run.startedAt === null ? { ...run, startedAt: now, level } : run
+
+/**
+ * Milliseconds left in the run (the full duration while armed)
+ */
+export function sprintRemainingMs(run: SprintRun, now: number): number {
+  if (run.startedAt === null) return run.durationSeconds * 1000
+  return Math.max(0, run.startedAt + run.durationSeconds * 1000 - now)
+}
+
+/**
+ * Record one submitted word
+ */
+export function recordSprintAnswer(
+  run: SprintRun,
+  word: { id: string; korean: string },
+  isCorrect: boolean
+): SprintRun {
+  const streak = isCorrect ? run.streak + 1 : 0
+  return {
+    ...run,
+    attempts: run.attempts + 1,
+    completed: run.completed + (isCorrect ? 1 : 0),
+    strokes: run.strokes + (isCorrect ? countStrokes(word.korean) : 0),
+    streak,
+    bestStreak: Math.max(run.bestStreak, streak),
+    missedWordIds:
+      isCorrect || run.missedWordIds.includes(word.id)
+        ? run.missedWordIds
+        : [...run.missedWordIds, word.id],
+  }
+}
+
+/**
+ * Summarize a finished run
+ */
+export function finishSprint(run: SprintRun, now: number): SprintResult {
+  const startedAt = run.startedAt ?? now
+  const elapsedMs = Math.min(now - startedAt, run.durationSeconds * 1000)
+  return {
+    mode: run.mode,
+    durationSeconds: run.durationSeconds,
+    level: run.level,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(now).toISOString(),
+    wordsCompleted: run.completed,
+    attempts: run.attempts,
+    accuracy: run.attempts > 0 ? Math.round((run.completed / run.attempts) * 100) : 0,
+    bestStreak: run.bestStreak,
+    strokesPerMinute: elapsedMs > 0 ? Math.round((run.strokes / elapsedMs) * 60_000) : 0,
+    missedWordIds: run.missedWordIds,
+  }
+}
+
+/**
+ * Is `result` better than `best`? More words wins, accuracy breaks ties.
+ */
+export const isBetterSprint = (
+  result: Pick<SprintResult, 'wordsCompleted' | 'accuracy'>,
+  best: Pick<SprintResult, 'wordsCompleted' | 'accuracy'> | null
+): boolean =>
+  best === null ||
+  result.wordsCompleted > best.wordsCompleted ||
+  (result.wordsCompleted === best.wordsCompleted && result.accuracy > best.accuracy)
+
+/**
+ * Key for personal bests: one record per mode, duration and level
+ */
+export const sprintBestKey = (mode: SprintMode, durationSeconds: number, level: number): string =>
+  `${mode}:${durationSeconds}:${level}`
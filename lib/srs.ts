@@ -0,0 +1,127 @@
+// ============================================================================
+// Spaced repetition (SM-2)
+// ============================================================================
+// Each (user, word) pair keeps an ease factor, the current interval and the
+// number of successful repetitions in a row. A recall is graded 0–5:
+//   5 perfect, 4 correct, 3 correct but difficult (e.g. with hints),
+//   2/1 wrong but familiar, 0 skipped / no idea.
+// Grades below 3 reset the repetitions and bring the word back shortly.
+
+export interface SrsState {
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+  last_reviewed_at: string | null
+}
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+// Words are scheduled separately per direction:
+// - "recall": see the meaning, type the Korean word
+// - "meaning": see the Korean word, type the English meaning
+export type ReviewDirection = 'recall' | 'meaning'
+
+export const QUALITY_SKIPPED: ReviewQuality = 0
+export const QUALITY_WRONG: ReviewQuality = 1
+export const QUALITY_HARD: ReviewQuality = 3
+export const QUALITY_GOOD: ReviewQuality = 4
+
+const DEFAULT_EASE = 2.5
+const MIN_EASE = 1.3
+const DAY_MS = 24 * 60 * 60 * 1000
+// A failed word comes back later in the same session rather than tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+
+/**
+ * Grade a Recall Mode answer, treating hinted answers as weaker recalls:
+ * a correct answer with hints passes as "hard", so it stays learned but comes
+ * back sooner. Every hint level (length, 초성, first syllable, hanja) is graded
+ * the same, so a pass always counts for score and streak; only the points for
+ * the word drop with each hint.
+ */
+export function qualityForAnswer(isCorrect: boolean, hintsUsed: number): ReviewQuality {
+  if (!isCorrect) return QUALITY_WRONG
+  return hintsUsed === 0 ? QUALITY_GOOD : QUALITY_HARD
+}
+
+export const isPassingQuality = (quality: ReviewQuality): boolean => quality >= 3
+
+/**
+ * Compute the next scheduling state after a review.
+ * `previous` is null for a word that has never been reviewed.
+ */
+export function scheduleReview(
+  previous: SrsState | null,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): SrsState {
+  const prev = previous ?? {
+    ease: DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    last_reviewed_at: null,
+  }
+
+  const ease = Math.max(
+    MIN_EASE,
+    prev.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  )
+
+  if (!isPassingQuality(quality)) {
+    return {
+      ease,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: prev.lapses + (prev.repetitions > 0 ? 1 : 0),
+      due_at: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      last_reviewed_at: now.toISOString(),
+    }
+  }
+
+  const repetitions = prev.repetitions + 1
+  const interval_days =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(prev.interval_days * ease)
+
+  return {
+    ease,
+    interval_days,
+    repetitions,
+    lapses: prev.lapses,
+    due_at: new Date(now.getTime() + interval_days * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  }
+}
+
+/**
+ * Put a word back into the review queue on request (e.g. from the
+ * dictionary): due right away with its streak reset, ease and lapses kept.
+ */
+export function markForReview(previous: SrsState | null, now: Date = new Date()): SrsState {
+  return {
+    ease: previous?.ease ?? DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: previous?.lapses ?? 0,
+    due_at: now.toISOString(),
+    last_reviewed_at: previous?.last_reviewed_at ?? null,
+  }
+}
+
+/**
+ * Is the word due for review at `now` (epoch ms)?
+ */
+export const isDue = (state: SrsState, now: number): boolean =>
+  new Date(state.due_at).getTime() <= now
+
+/**
+ * Is the word due before the end of the local day containing `now`?
+ */
+export function isDueToday(state: SrsState, now: number): boolean {
+  const endOfDay = new Date(now)
+  endOfDay.setHours(23, 59, 59, 999)
+  return new Date(state.due_at).getTime() <= endOfDay.getTime()
+}
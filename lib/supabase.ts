@@ -1,10 +1,113 @@
-import { Word } from '@/data/words'
-import { createClient, type Session } from '@supabase/supabase-js'
+import {
+  Word,
+  datasetValue,
+  isLegacyWordId,
+  resolveLegacyWordId,
+  wordsById,
+  type CustomWordEntry,
+} from '@/data/words'
+import {
+  isPassingQuality,
+  markForReview,
+  type ReviewDirection,
+  type ReviewQuality,
+  type SrsState,
+} from '@/lib/srs'
+import {
+  planGuestMerge,
+  recordGuestMerge,
+  reviewKey,
+  unmergedGuestProgress,
+  type GuestMergeSummary,
+  type GuestProgress,
+} from '@/lib/guestProgress'
+import { QUEUED_REPORT_STATUSES, type MeaningReport, type ReportField } from '@/lib/moderation'
+import {
+  CANONICAL_SCHEMA,
+  fromDbLearnedWord,
+  toDbStats,
+  type SchemaAdapter,
+  type SchemaSnapshot,
+} from '@/lib/schema'
+import { isBetterSprint, sprintBestKey, type SprintMode, type SprintResult } from '@/lib/sprint'
+import { createClient, type Session, type SupabaseClient } from '@supabase/supabase-js'
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+// Without these the app runs on the local repository
+// (lib/progressRepository.ts) and the client is never created
+export const isSupabaseConfigured = !!(SUPABASE_URL && SUPABASE_ANON_KEY)
+
+let client: SupabaseClient | null = null
 
-export const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-)
+/**
+ * The Supabase client, created on first use.
+ * Throws when the environment variables are missing.
+ */
+export function getSupabase(): SupabaseClient {
+  if (!client) {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      throw new Error(
+        'Supabase is not configured: set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY'
+      )
+    }
+    client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
+  }
+  return client
+}
+
+// ============================================================================
+// Schema Detection (see lib/schema.ts)
+// ============================================================================
+
+let schemaPromise: Promise<SchemaAdapter> | null = null
+
+// true / false when the column does or doesn't exist; null when the probe
+// couldn't tell (missing table, offline, ...)
+async function probeColumn(table: string, column: string): Promise<boolean | null> {
+  const { error } = await getSupabase().from(table).select(column).limit(1)
+  if (!error) return true
+  if (error.code === '42703' || error.code === 'PGRST204') return false
+  return null
+}
+
+/**
+ * Which column names this database uses. Probed once per session; probed
+ * again on the next call if a probe couldn't tell (canonical names are
+ * assumed meanwhile).
+ */
+export function detectSchema(): Promise<SchemaAdapter> {
+  if (!schemaPromise) {
+    schemaPromise = (async () => {
+      const probes = await Promise.all([
+        probeColumn('user_stats', 'current_level'),
+        probeColumn('user_stats', 'total_words_completed'),
+        probeColumn('learned_words', 'learned_at'),
+        probeColumn('learned_words', 'word_data'),
+        probeColumn('review_words', 'word_data'),
+        probeColumn('reported_meanings', 'field'),
+      ])
+      const [currentLevel, wordCount, learnedAt, learnedWordData, reviewWordData, reportField] = probes
+      const schema: SchemaAdapter = {
+        stats: currentLevel === false ? 'legacy' : CANONICAL_SCHEMA.stats,
+        statsWordCount: wordCount !== false,
+        learnedAt: learnedAt === false ? 'created_at' : CANONICAL_SCHEMA.learnedAt,
+        learnedWordData: learnedWordData === true,
+        reviewWordData: reviewWordData === true,
+        reportField: reportField !== false,
+      }
+      if (probes.includes(null)) {
+        console.warn('[Supabase DB] Schema probe inconclusive, will probe again:', probes)
+        schemaPromise = null
+      } else {
+        console.log('[Supabase DB] Schema detected:', schema)
+      }
+      return schema
+    })()
+  }
+  return schemaPromise
+}
 
 // ============================================================================
 // Auth Functions with Session Handling
@@ -21,6 +124,36 @@ export interface UserStats {
   updated_at: string
 }
 
+// Per-session typing speed, stored next to user_stats (see TYPING_SPEED_SETUP.sql)
+export interface TypingSessionStats {
+  id: string
+  user_id: string
+  started_at: string
+  words_timed: number
+  avg_strokes_per_minute: number // 타수
+  best_strokes_per_minute: number
+  avg_syllables_per_minute: number
+  avg_time_to_first_key_ms: number
+  updated_at: string
+}
+
+// One finished timed sprint (see SPRINT_SETUP.sql)
+export interface SprintRunRecord {
+  id: string
+  user_id: string
+  mode: SprintMode
+  duration_seconds: number
+  level: number
+  words_completed: number
+  attempts: number
+  accuracy: number
+  best_streak: number
+  strokes_per_minute: number
+  missed_word_ids: string[]
+  started_at: string
+  finished_at: string
+}
+
 // Helper: normalize a DB row (handles legacy/alternate column names)
 function mapDbUserStats(row: any): UserStats | null {
   if (!row || !row.user_id) return null
@@ -44,7 +177,7 @@ function mapDbUserStats(row: any): UserStats | null {
  * Returns unsubscribe function and current session
  */
 export function onAuthStateChange(callback: (session: Session | null) => void) {
-  const { data: authListener } = supabase.auth.onAuthStateChange(
+  const { data: authListener } = getSupabase().auth.onAuthStateChange(
     (_event, session) => {
       callback(session)
       console.log('[Supabase Auth] Session changed:', session?.user?.email || 'no user')
@@ -58,7 +191,7 @@ export function onAuthStateChange(callback: (session: Session | null) => void) {
  * Get current session (does NOT make API call)
  */
 export async function getSession() {
-  const { data: { session }, error } = await supabase.auth.getSession()
+  const { data: { session }, error } = await getSupabase().auth.getSession()
   return { session, error }
 }
 
@@ -68,7 +201,7 @@ export async function getSession() {
  */
 export async function signUp(email: string, password: string) {
   console.log('[Supabase Auth] Attempting signup for:', email)
-  const { data, error } = await supabase.auth.signUp({
+  const { data, error } = await getSupabase().auth.signUp({
     email,
     password,
   })
@@ -91,7 +224,7 @@ export async function signUp(email: string, password: string) {
  */
 export async function signIn(email: string, password: string) {
   console.log('[Supabase Auth] Attempting signin for:', email)
-  const { data, error } = await supabase.auth.signInWithPassword({
+  const { data, error } = await getSupabase().auth.signInWithPassword({
     email,
     password,
   })
@@ -110,7 +243,7 @@ export async function signIn(email: string, password: string) {
  */
 export async function resetPasswordForEmail(email: string, redirectTo: string) {
   console.log('[Supabase Auth] Sending password reset email to:', email)
-  const { data, error } = await supabase.auth.resetPasswordForEmail(email, {
+  const { data, error } = await getSupabase().auth.resetPasswordForEmail(email, {
     redirectTo,
   })
 
@@ -128,7 +261,7 @@ export async function resetPasswordForEmail(email: string, redirectTo: string) {
  */
 export async function updatePassword(newPassword: string) {
   console.log('[Supabase Auth] Updating password')
-  const { data, error } = await supabase.auth.updateUser({ password: newPassword })
+  const { data, error } = await getSupabase().auth.updateUser({ password: newPassword })
 
   if (error) {
     console.error('[Supabase Auth] Update password error:', error.message)
@@ -144,7 +277,7 @@ export async function updatePassword(newPassword: string) {
  */
 export async function signOut() {
   console.log('[Supabase Auth] Signing out')
-  const { error } = await supabase.auth.signOut()
+  const { error } = await getSupabase().auth.signOut()
 
   if (error) {
     console.error('[Supabase Auth] Signout error:', error.message)
@@ -160,54 +293,26 @@ export async function signOut() {
  * This ensures the user_id is in the table for future updates
  */
 export async function createInitialUserStats(userId: string) {
-  // Primary attempt: canonical column names
-  let { error } = await supabase
+  const schema = await detectSchema()
+  const { error } = await getSupabase()
     .from('user_stats')
     .insert({
       user_id: userId,
-      total_score: 0,
-      highest_streak: 0,
-      total_words_completed: 0,
-      accuracy: 0,
-      current_level: 1,
+      ...toDbStats(
+        { total_score: 0, highest_streak: 0, total_words_completed: 0, accuracy: 0, current_level: 1 },
+        schema
+      ),
       updated_at: new Date().toISOString(),
     })
 
-  if (!error) {
-    console.log('[Supabase DB] Initial user_stats row created for user:', userId)
-    return { error: null }
-  }
-
-  const errMsg = (error.message ?? String(error)).toLowerCase()
-
-  // Fallback: some deployments use legacy column names (score, streak, level)
-  if (errMsg.includes('current_level') || errMsg.includes('total_score') || errMsg.includes('total_words_completed')) {
-    console.warn('[Supabase DB] Falling back to legacy user_stats column names (score/streak/level)')
-
-    const { error: legacyErr } = await supabase
-      .from('user_stats')
-      .insert({
-        user_id: userId,
-        score: 0,
-        streak: 0,
-        total_words_completed: 0,
-        accuracy: 0,
-        level: 1,
-        updated_at: new Date().toISOString(),
-      })
-
-    if (!legacyErr) {
-      console.log('[Supabase DB] Initial user_stats (legacy columns) created for user:', userId)
-      return { error: null }
-    }
-
-    console.error('[Supabase DB] Legacy insert also failed:', legacyErr.message ?? legacyErr)
-    return { error: legacyErr }
+  if (error) {
+    console.error('[Supabase DB] Error creating initial user_stats:', error.message ?? error)
+    return { error }
   }
 
-  console.error('[Supabase DB] Error creating initial user_stats:', error.message ?? error)
-  return { error }
-} 
+  console.log('[Supabase DB] Initial user_stats row created for user:', userId)
+  return { error: null }
+}
 
 // ============================================================================
 // User Stats Database Functions
@@ -220,7 +325,7 @@ export async function createInitialUserStats(userId: string) {
 export async function fetchUserStats(userId: string) {
   console.log('[Supabase DB] Fetching stats for user:', userId)
   
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('user_stats')
     .select('*')
     .eq('user_id', userId)
@@ -252,16 +357,17 @@ export async function fetchUserStats(userId: string) {
 export async function upsertUserStats(userId: string, stats: Partial<UserStats>) {
   console.log('[Supabase DB] Upserting stats for user:', userId, stats)
 
-  // Primary attempt (canonical columns)
-  const payload = { user_id: userId, ...stats, updated_at: new Date().toISOString() }
-  let { data, error } = await supabase
+  const schema = await detectSchema()
+  const columns = { ...toDbStats(stats, schema), updated_at: new Date().toISOString() }
+  const payload = { ...columns, user_id: userId }
+  const { data, error } = await getSupabase()
     .from('user_stats')
     .upsert(payload, { onConflict: 'user_id' })
     .select()
     .single()
 
   if (!error) {
-    console.log('[Supabase DB] Stats upserted successfully (canonical)')
+    console.log('[Supabase DB] Stats upserted successfully')
     return { data: mapDbUserStats(data as any), error: null }
   }
 
@@ -274,34 +380,6 @@ export async function upsertUserStats(userId: string, stats: Partial<UserStats>)
     payload,
   })
 
-  // If the error indicates missing canonical columns, try legacy column names
-  if (errMsg.includes('current_level') || errMsg.includes('total_score') || errMsg.includes('total_words_completed')) {
-    console.warn('[Supabase DB] Detected legacy schema for user_stats; attempting legacy upsert')
-
-    const legacyPayload: any = {
-      user_id: userId,
-      score: stats.total_score ?? 0,
-      streak: stats.highest_streak ?? 0,
-      accuracy: stats.accuracy ?? 0,
-      level: stats.current_level ?? 1,
-      updated_at: new Date().toISOString(),
-    }
-
-    const { data: legacyData, error: legacyErr } = await supabase
-      .from('user_stats')
-      .upsert(legacyPayload, { onConflict: 'user_id' })
-      .select()
-      .single()
-
-    if (!legacyErr) {
-      console.log('[Supabase DB] Stats upserted successfully (legacy columns)')
-      return { data: mapDbUserStats(legacyData as any), error: null }
-    }
-
-    console.error('[Supabase DB] Legacy upsert failed:', legacyErr.message ?? legacyErr)
-    // fall through to other fallback logic
-  }
-
   // Helpful guidance for missing table vs missing unique constraint
   if (errMsg.includes("could not find the table") || errMsg.includes('relation "user_stats" does not exist')) {
     console.error('[Supabase DB] The `user_stats` table appears to be missing. Run the setup SQL to create it.');
@@ -312,103 +390,185 @@ export async function upsertUserStats(userId: string, stats: Partial<UserStats>)
   if (errMsg.includes('no unique or exclusion constraint') || errMsg.includes('on conflict')) {
     console.warn('[Supabase DB] Falling back to select/insert/update because ON CONFLICT is not available for `user_id`.')
 
-    // Check whether a row already exists for this user
-    const { data: existing, error: selectErr } = await supabase
+    const { data: existing, error: selectErr } = await getSupabase()
       .from('user_stats')
-      .select('*')
+      .select('id')
       .eq('user_id', userId)
-      .single()
+      .maybeSingle()
 
     if (selectErr) {
-      // If no existing row, create one (try canonical then legacy)
-      if (selectErr.code === 'PGRST116') {
-        const { data: inserted, error: insertErr } = await supabase
-          .from('user_stats')
-          .insert(payload)
-          .select()
-          .single()
-
-        if (!insertErr) {
-          return { data: mapDbUserStats(inserted as any), error: null }
-        }
-
-        // Try legacy insert if canonical failed due to schema
-        const insertErrMsg = (insertErr.message ?? String(insertErr)).toLowerCase()
-        if (insertErrMsg.includes('current_level') || insertErrMsg.includes('total_score')) {
-          const { data: legacyInserted, error: legacyInsertErr } = await supabase
-            .from('user_stats')
-            .insert({
-              user_id: userId,
-              score: stats.total_score ?? 0,
-              streak: stats.highest_streak ?? 0,
-              accuracy: stats.accuracy ?? 0,
-              level: stats.current_level ?? 1,
-              updated_at: new Date().toISOString(),
-            })
-            .select()
-            .single()
-
-          if (!legacyInsertErr) return { data: mapDbUserStats(legacyInserted as any), error: null }
-          console.error('[Supabase DB] Error inserting (legacy) user_stats fallback:', legacyInsertErr.message ?? legacyInsertErr)
-          return { data: null, error: legacyInsertErr }
-        }
-
-        console.error('[Supabase DB] Error inserting user_stats fallback:', insertErr.message ?? insertErr)
-        return { data: null, error: insertErr }
-      }
-
       console.error('[Supabase DB] Error checking existing user_stats row:', selectErr.message ?? selectErr)
       return { data: null, error: selectErr }
     }
 
-    // Row exists — update it using canonical columns where possible
-    const { data: updated, error: updateErr } = await supabase
-      .from('user_stats')
-      .update({ ...stats, updated_at: new Date().toISOString() })
-      .eq('user_id', userId)
-      .select()
-      .single()
+    const write = existing
+      ? getSupabase().from('user_stats').update(columns).eq('user_id', userId)
+      : getSupabase().from('user_stats').insert(payload)
+    const { data: written, error: writeErr } = await write.select().single()
 
-    if (!updateErr) return { data: mapDbUserStats(updated as any), error: null }
-
-    // Try legacy update if canonical update fails due to schema
-    const updateErrMsg = (updateErr.message ?? String(updateErr)).toLowerCase()
-    if (updateErrMsg.includes('current_level') || updateErrMsg.includes('total_score')) {
-      const { data: legacyUpdated, error: legacyUpdateErr } = await supabase
-        .from('user_stats')
-        .update({
-          score: stats.total_score ?? 0,
-          streak: stats.highest_streak ?? 0,
-          accuracy: stats.accuracy ?? 0,
-          level: stats.current_level ?? 1,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', userId)
-        .select()
-        .single()
-
-      if (!legacyUpdateErr) return { data: mapDbUserStats(legacyUpdated as any), error: null }
-      console.error('[Supabase DB] Error updating user_stats fallback (legacy):', legacyUpdateErr.message ?? legacyUpdateErr)
-      return { data: null, error: legacyUpdateErr }
+    if (writeErr) {
+      console.error('[Supabase DB] Error writing user_stats fallback:', writeErr.message ?? writeErr)
+      return { data: null, error: writeErr }
     }
 
-    console.error('[Supabase DB] Error updating user_stats fallback:', updateErr.message ?? updateErr)
-    return { data: null, error: updateErr }
+    return { data: mapDbUserStats(written as any), error: null }
   }
 
   // Other errors — return as-is
   return { data: null, error }
-} 
+}
+
+// ============================================================================
+// Typing Speed Sessions
+// ============================================================================
+
+/**
+ * Insert or update the speed summary for one practice session.
+ * The session id is generated client-side, so repeated saves during the
+ * same session update a single row.
+ */
+export async function upsertTypingSession(
+  userId: string,
+  session: Omit<TypingSessionStats, 'user_id' | 'updated_at'>
+) {
+  console.log('[Supabase DB] Upserting typing session:', session.id, session)
+
+  const { data, error } = await getSupabase()
+    .from('typing_sessions')
+    .upsert({
+      ...session,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'id' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Supabase DB] Error upserting typing session:', error.message ?? error)
+    return { data: null, error }
+  }
+
+  return { data: data as TypingSessionStats, error: null }
+}
+
+/**
+ * Fetch the user's most recent typing sessions (newest first)
+ */
+export async function fetchTypingSessions(userId: string, limit = 30) {
+  const { data, error } = await getSupabase()
+    .from('typing_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching typing sessions:', error.message)
+    return { data: [], error }
+  }
+
+  return { data: (data as TypingSessionStats[]) || [], error: null }
+}
+
+// ============================================================================
+// Timed Sprints
+// ============================================================================
+
+// Helper: DB row -> SprintResult
+function mapDbSprintRun(row: SprintRunRecord): SprintResult {
+  return {
+    mode: row.mode,
+    durationSeconds: row.duration_seconds as SprintResult['durationSeconds'],
+    level: row.level,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    wordsCompleted: row.words_completed,
+    attempts: row.attempts,
+    accuracy: row.accuracy,
+    bestStreak: row.best_streak,
+    strokesPerMinute: row.strokes_per_minute,
+    missedWordIds: row.missed_word_ids ?? [],
+  }
+}
+
+/**
+ * Save a finished sprint run. `runId` comes from the caller, so a retried
+ * save is stored only once.
+ */
+export async function saveSprintRun(userId: string, runId: string, result: SprintResult) {
+  console.log('[Supabase DB] Saving sprint run:', result)
+
+  const { data, error } = await getSupabase()
+    .from('sprint_runs')
+    .insert({
+      id: runId,
+      user_id: userId,
+      mode: result.mode,
+      duration_seconds: result.durationSeconds,
+      level: result.level,
+      words_completed: result.wordsCompleted,
+      attempts: result.attempts,
+      accuracy: result.accuracy,
+      best_streak: result.bestStreak,
+      strokes_per_minute: result.strokesPerMinute,
+      missed_word_ids: result.missedWordIds,
+      started_at: result.startedAt,
+      finished_at: result.finishedAt,
+    })
+    .select()
+    .single()
+
+  // A retried save that was already stored
+  if (error?.code === '23505') {
+    console.log('[Supabase DB] Sprint run already saved:', runId)
+    return { data: null, error: null }
+  }
+
+  if (error) {
+    console.error('[Supabase DB] Error saving sprint run:', error.message ?? error)
+    return { data: null, error }
+  }
+
+  return { data: data as SprintRunRecord, error: null }
+}
+
+/**
+ * Fetch the user's personal best per mode, duration and level,
+ * keyed by sprintBestKey()
+ */
+export async function fetchSprintBests(userId: string) {
+  const { data, error } = await getSupabase()
+    .from('sprint_runs')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching sprint runs:', error.message)
+    return { data: new Map<string, SprintResult>(), error }
+  }
+
+  const bests = new Map<string, SprintResult>()
+  for (const row of (data as SprintRunRecord[]) || []) {
+    const run = mapDbSprintRun(row)
+    const key = sprintBestKey(run.mode, run.durationSeconds, run.level)
+    if (isBetterSprint(run, bests.get(key) ?? null)) {
+      bests.set(key, run)
+    }
+  }
+
+  return { data: bests, error: null }
+}
 
 // ============================================================================
 // Learned & Review Words Tracking (Recall Mode)
 // ============================================================================
 
+// Rows store only the word id; the word itself comes from the catalog
+// (resolveWordIds in data/words.ts), so corrections reach every user
 export interface LearnedWord {
   id: string
   user_id: string
   word_id: string
-  word_data: Word // Store full word metadata
   learned_at: string
 }
 
@@ -416,7 +576,6 @@ export interface ReviewWord {
   id: string
   user_id: string
   word_id: string
-  word_data: Word // Store full word metadata
   failed_count: number
   created_at: string
 }
@@ -427,34 +586,22 @@ export interface ReviewWord {
 export async function fetchLearnedWords(userId: string) {
   console.log('[Supabase DB] Fetching learned words for user:', userId)
 
-  // Primary: order by learned_at (preferred)
-  let res = await supabase
+  const schema = await detectSchema()
+  const { data, error } = await getSupabase()
     .from('learned_words')
     .select('*')
     .eq('user_id', userId)
-    .order('learned_at', { ascending: false })
-
-  if (res.error) {
-    const msg = (res.error.message ?? String(res.error)).toLowerCase()
-    // Fallback: some schemas use `created_at` instead of `learned_at`
-    if (msg.includes('learned_at') || msg.includes("could not find the 'learned_at'")) {
-      console.warn('[Supabase DB] learned_at missing; retrying fetchLearnedWords ordering by created_at')
-      res = await supabase
-        .from('learned_words')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-    }
-  }
+    .order(schema.learnedAt, { ascending: false })
 
-  if (res.error) {
-    console.error('[Supabase DB] Error fetching learned words:', res.error.message)
-    return { data: [], error: res.error }
+  if (error) {
+    console.error('[Supabase DB] Error fetching learned words:', error.message)
+    return { data: [], error }
   }
 
-  console.log('[Supabase DB] Learned words fetched:', res.data?.length)
-  return { data: (res.data as LearnedWord[]) || [], error: null }
-} 
+  const rows = ((data as LearnedWord[]) || []).map((row) => fromDbLearnedWord(row, schema))
+  console.log('[Supabase DB] Learned words fetched:', rows.length)
+  return { data: rows, error: null }
+}
 
 /**
  * Fetch all review words (failed) for the user
@@ -462,7 +609,7 @@ export async function fetchLearnedWords(userId: string) {
 export async function fetchReviewWords(userId: string) {
   console.log('[Supabase DB] Fetching review words for user:', userId)
   
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('review_words')
     .select('*')
     .eq('user_id', userId)
@@ -496,39 +643,18 @@ export async function fetchReviewWords(userId: string) {
 export async function addLearnedWord(userId: string, word: Word) {
   console.log('[Supabase DB] Adding learned word:', word.korean)
 
-  // Try canonical payload first (learned_at)
-  let { data, error } = await supabase
+  const schema = await detectSchema()
+  const { data, error } = await getSupabase()
     .from('learned_words')
     .upsert({
       user_id: userId,
       word_id: word.id,
-      word_data: word,
-      learned_at: new Date().toISOString(),
+      [schema.learnedAt]: new Date().toISOString(),
+      ...(schema.learnedWordData && { word_data: word }),
     }, { onConflict: 'user_id,word_id' })
     .select()
     .single()
 
-  // If learned_at column is missing, retry using created_at (legacy schema)
-  if (error) {
-    const msg = (error.message ?? String(error)).toLowerCase()
-    if (msg.includes('learned_at') || msg.includes("could not find the 'learned_at'")) {
-      console.warn('[Supabase DB] learned_at missing; retrying addLearnedWord with created_at')
-      const retry = await supabase
-        .from('learned_words')
-        .upsert({
-          user_id: userId,
-          word_id: word.id,
-          word_data: word,
-          created_at: new Date().toISOString(),
-        }, { onConflict: 'user_id,word_id' })
-        .select()
-        .single()
-
-      data = retry.data
-      error = retry.error
-    }
-  }
-
   if (error) {
     console.error('[Supabase DB] Error adding learned word:', error.message ?? error)
   } else {
@@ -538,6 +664,19 @@ export async function addLearnedWord(userId: string, word: Word) {
   return { data, error }
 } 
 
+// A new review_words row (with a word_data snapshot where the column is left)
+async function newReviewRow(userId: string, word: Word, failedCount = 1, createdAt = new Date().toISOString()) {
+  const schema = await detectSchema()
+  return {
+    user_id: userId,
+    word_id: word.id,
+    failed_count: failedCount,
+    created_at: createdAt,
+    updated_at: new Date().toISOString(),
+    ...(schema.reviewWordData && { word_data: word }),
+  }
+}
+
 /**
  * Add a word to review words list (or increment if already exists)
  */
@@ -546,7 +685,7 @@ export async function addReviewWord(userId: string, word: Word) {
   
   // First check if word already exists
   // Query all rows matching (user_id, word_id) defensively (server may have duplicates)
-  const { data: rows, error: fetchError } = await supabase
+  const { data: rows, error: fetchError } = await getSupabase()
     .from('review_words')
     .select('id, failed_count, word_id')
     .eq('user_id', userId)
@@ -565,7 +704,7 @@ export async function addReviewWord(userId: string, word: Word) {
     const keeper = matched[0]
 
     // Update keeper with aggregated failed_count
-    const { error: updErr } = await supabase
+    const { error: updErr } = await getSupabase()
       .from('review_words')
       .update({ failed_count: totalFails, updated_at: new Date().toISOString() })
       .eq('id', keeper.id)
@@ -577,7 +716,7 @@ export async function addReviewWord(userId: string, word: Word) {
 
     // Delete the duplicate rows (keep the keeper)
     const duplicateIds = matched.slice(1).map((r) => r.id)
-    const { error: delErr } = await supabase
+    const { error: delErr } = await getSupabase()
       .from('review_words')
       .delete()
       .in('id', duplicateIds)
@@ -587,7 +726,7 @@ export async function addReviewWord(userId: string, word: Word) {
     }
 
     // Reload the keeper row to use below
-    const { data: reloaded } = await supabase
+    const { data: reloaded } = await getSupabase()
       .from('review_words')
       .select('id, failed_count')
       .eq('id', keeper.id)
@@ -603,7 +742,7 @@ export async function addReviewWord(userId: string, word: Word) {
 
   if (existing) {
     // Update fail count
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('review_words')
       .update({ failed_count: existing.failed_count + 1, updated_at: new Date().toISOString() })
       .eq('id', existing.id)
@@ -619,16 +758,9 @@ export async function addReviewWord(userId: string, word: Word) {
   }
 
   // Insert new (use upsert to avoid duplicate-key race conditions)
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('review_words')
-    .upsert({
-      user_id: userId,
-      word_id: word.id,
-      word_data: word,
-      failed_count: 1,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    }, { onConflict: 'user_id,word_id' })
+    .upsert(await newReviewRow(userId, word), { onConflict: 'user_id,word_id' })
     .select()
     .single()
 
@@ -640,13 +772,29 @@ export async function addReviewWord(userId: string, word: Word) {
   return { data, error: null }
 }
 
+/**
+ * Put a word on the review list without counting a fail when it is already
+ * there (a retried grade whose first attempt may or may not have added it)
+ */
+export async function ensureReviewWord(userId: string, word: Word) {
+  const { error } = await getSupabase()
+    .from('review_words')
+    .upsert(await newReviewRow(userId, word), { onConflict: 'user_id,word_id', ignoreDuplicates: true })
+
+  if (error) {
+    console.error('[Supabase DB] Error ensuring review word:', error.message)
+  }
+
+  return { error }
+}
+
 /**
  * Remove a word from learned words
  */
 export async function removeLearnedWord(userId: string, wordId: string) {
   console.log('[Supabase DB] Removing learned word:', wordId)
   
-  const { error } = await supabase
+  const { error } = await getSupabase()
     .from('learned_words')
     .delete()
     .eq('user_id', userId)
@@ -665,7 +813,7 @@ export async function removeLearnedWord(userId: string, wordId: string) {
 export async function removeReviewWord(userId: string, wordId: string) {
   console.log('[Supabase DB] Removing review word:', wordId)
   
-  const { error } = await supabase
+  const { error } = await getSupabase()
     .from('review_words')
     .delete()
     .eq('user_id', userId)
@@ -680,38 +828,955 @@ export async function removeReviewWord(userId: string, wordId: string) {
 
 /**
  * Report incorrect word meaning for debugging
- * Records user's feedback about wrong definitions/translations
+ * Records user's feedback about wrong definitions/translations.
+ * `field` is the reported word field; current/corrected values are that field's.
+ * `reportId` comes from the caller, so a retried report is saved only once.
  */
 export async function reportIncorrectMeaning(
   userId: string,
+  reportId: string,
   wordId: string,
   korean: string,
   currentMeaning: string,
   correctedMeaning: string,
+  notes: string,
+  field: ReportField = 'en'
+) {
+  console.log('[Supabase DB] Reporting incorrect', field, 'for word:', korean)
+
+  const row = {
+    id: reportId,
+    user_id: userId,
+    word_id: wordId,
+    korean,
+    current_meaning: currentMeaning,
+    corrected_meaning: correctedMeaning,
+    notes,
+    status: 'pending',
+    created_at: new Date().toISOString(),
+  }
+
+  // Without a field column every report is about `en`; other fields still
+  // send it, so the insert fails instead of filing them as `en` reports
+  const schema = await detectSchema()
+  let { data, error } = await getSupabase()
+    .from('reported_meanings')
+    .insert(schema.reportField || field !== 'en' ? { ...row, field } : row)
+    .select()
+    .single()
+
+  // A retried report that was already saved
+  if (error?.code === '23505') {
+    const saved = await getSupabase()
+      .from('reported_meanings')
+      .select('*')
+      .eq('id', reportId)
+      .eq('user_id', userId)
+      .single()
+    data = saved.data
+    error = saved.error
+  }
+
+  if (error) {
+    console.error('[Supabase DB] Error reporting meaning:', error.message)
+    return { data: null, error }
+  }
+
+  console.log('[Supabase DB] Meaning reported successfully')
+  return { data: data as MeaningReport, error: null }
+}
+
+/**
+ * Fetch the user's own reports, newest first
+ */
+export async function fetchMyReports(userId: string) {
+  const { data, error } = await getSupabase()
+    .from('reported_meanings')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching own reports:', error.message)
+    return { data: [] as MeaningReport[], error }
+  }
+
+  return { data: (data as MeaningReport[]) || [], error: null }
+}
+
+/**
+ * Edit one of the user's reports while it is still pending
+ */
+export async function updateMyReport(
+  userId: string,
+  reportId: string,
+  correctedMeaning: string,
   notes: string
 ) {
-  console.log('[Supabase DB] Reporting incorrect meaning for word:', korean)
-  
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('reported_meanings')
-    .insert({
-      user_id: userId,
-      word_id: wordId,
-      korean,
-      current_meaning: currentMeaning,
+    .update({
       corrected_meaning: correctedMeaning,
       notes,
-      status: 'pending',
-      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
     })
+    .eq('id', reportId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
     .select()
     .single()
 
   if (error) {
-    console.error('[Supabase DB] Error reporting meaning:', error.message)
+    console.error('[Supabase DB] Error updating report:', error.message)
     return { data: null, error }
   }
 
-  console.log('[Supabase DB] Meaning reported successfully')
-  return { data, error: null }
+  return { data: data as MeaningReport, error: null }
+}
+
+/**
+ * Withdraw (delete) one of the user's reports while it is still pending
+ */
+export async function withdrawMyReport(userId: string, reportId: string) {
+  const { error } = await getSupabase()
+    .from('reported_meanings')
+    .delete()
+    .eq('id', reportId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+
+  if (error) {
+    console.error('[Supabase DB] Error withdrawing report:', error.message)
+  }
+
+  return { error }
+}
+
+// ============================================================================
+// Meaning Moderation (admin, see MODERATION_SETUP.sql)
+// ============================================================================
+
+// Approved corrections for a word, applied over the dataset by
+// applyMeaningCorrections(); null fields keep the dataset value
+export interface MeaningCorrection {
+  word_id: string
+  korean: string
+  en: string | null
+  hanja?: string | null // added by REPORT_FIELDS_MIGRATION.sql
+  classification?: string | null
+  zh?: string | null
+  previous_meaning: string | null
+  report_count: number
+  approved_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Is the user an admin? (false when the admins table doesn't exist)
+ */
+export async function fetchIsAdmin(userId: string) {
+  const { data, error } = await getSupabase()
+    .from('admins')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Supabase DB] Error checking admin status:', error.message)
+    return { data: false, error }
+  }
+
+  return { data: !!data, error: null }
+}
+
+/**
+ * Fetch all approved meaning corrections (readable without signing in)
+ */
+export async function fetchMeaningCorrections() {
+  const { data, error } = await getSupabase()
+    .from('meaning_corrections')
+    .select('*')
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching meaning corrections:', error.message)
+    return { data: [] as MeaningCorrection[], error }
+  }
+
+  return { data: (data as MeaningCorrection[]) || [], error: null }
+}
+
+/**
+ * Fetch every user's reports still waiting for moderation (admins only;
+ * RLS returns just the caller's own reports otherwise)
+ */
+export async function fetchQueuedReports() {
+  const { data, error } = await getSupabase()
+    .from('reported_meanings')
+    .select('*')
+    .in('status', QUEUED_REPORT_STATUSES)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching reported meanings:', error.message)
+    return { data: [] as MeaningReport[], error }
+  }
+
+  return { data: (data as MeaningReport[]) || [], error: null }
+}
+
+/**
+ * Set the status of a batch of reports
+ */
+async function setReportStatus(reportIds: string[], status: 'applied' | 'rejected') {
+  const { error } = await getSupabase()
+    .from('reported_meanings')
+    .update({ status, updated_at: new Date().toISOString() })
+    .in('id', reportIds)
+
+  if (error) {
+    console.error(`[Supabase DB] Error marking reports ${status}:`, error.message)
+  }
+
+  return { error }
+}
+
+/**
+ * Approve a correction for a word field: store it in the word's corrections
+ * and mark the reports that suggested it as applied. `value` may be an
+ * admin's edit of the suggestion.
+ */
+export async function approveMeaningCorrection(
+  adminId: string,
+  word: Word,
+  field: ReportField,
+  value: string,
+  reportIds: string[]
+) {
+  console.log('[Supabase DB] Approving', field, 'correction for word:', word.id, value)
+
+  const { data, error } = await getSupabase()
+    .from('meaning_corrections')
+    .upsert(
+      {
+        word_id: word.id,
+        korean: word.korean,
+        [field]: value.trim(),
+        ...(field === 'en' ? { previous_meaning: datasetValue(word, 'en') } : {}),
+        report_count: reportIds.length,
+        approved_by: adminId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'word_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Supabase DB] Error saving meaning correction:', error.message)
+    return { data: null, error }
+  }
+
+  const { error: statusError } = await setReportStatus(reportIds, 'applied')
+  return { data: data as MeaningCorrection, error: statusError }
+}
+
+/**
+ * Reject reports (the word keeps its meaning)
+ */
+export async function rejectReports(reportIds: string[]) {
+  console.log('[Supabase DB] Rejecting reports:', reportIds.length)
+  return setReportStatus(reportIds, 'rejected')
+}
+
+/**
+ * Remove a word's corrections; it goes back to its dataset values
+ */
+export async function removeMeaningCorrection(wordId: string) {
+  const { error } = await getSupabase()
+    .from('meaning_corrections')
+    .delete()
+    .eq('word_id', wordId)
+
+  if (error) {
+    console.error('[Supabase DB] Error removing meaning correction:', error.message)
+  }
+
+  return { error }
+}
+
+
+// ============================================================================
+// Spaced Repetition Reviews (Recall Mode)
+// ============================================================================
+
+export interface WordReview extends SrsState {
+  id: string
+  user_id: string
+  word_id: string
+  direction: ReviewDirection
+  last_hints_used: number // hints revealed in the most recent review
+  total_hints_used: number
+  updated_at: string
+}
+
+/**
+ * Fetch the spaced-repetition state of every word the user has reviewed
+ */
+export async function fetchWordReviews(userId: string) {
+  console.log('[Supabase DB] Fetching word reviews for user:', userId)
+
+  const { data, error } = await getSupabase()
+    .from('word_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .order('due_at', { ascending: true })
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching word reviews:', error.message)
+    return { data: [], error }
+  }
+
+  console.log('[Supabase DB] Word reviews fetched:', data?.length)
+  return { data: (data as WordReview[]) || [], error: null }
+}
+
+/**
+ * Move a graded word between the Learned / To Review lists: passing grades to
+ * learned_words, failing grades to review_words. `countFail` is false when
+ * redoing the moves of an already saved grade, so the fail isn't counted
+ * twice. Returns the first error, so the write is kept and retried.
+ */
+async function moveGradedWord(userId: string, word: Word, passed: boolean, countFail: boolean) {
+  const steps = passed
+    ? [() => removeReviewWord(userId, word.id), () => addLearnedWord(userId, word)]
+    : [
+        () => removeLearnedWord(userId, word.id),
+        () => (countFail ? addReviewWord(userId, word) : ensureReviewWord(userId, word)),
+      ]
+  for (const step of steps) {
+    const { error } = await step()
+    if (error) return error
+  }
+  return null
+}
+
+/**
+ * Save one graded recall of a word: `next` is the schedule the game computed
+ * with scheduleReview() (SM-2).
+ * This is the single entry point for Recall / Meaning Mode results: it updates
+ * the `word_reviews` row for that direction. For the Korean recall direction
+ * it also keeps the Learned / To Review lists in sync (passing grades move the
+ * word to learned_words, failing grades to review_words).
+ * Saving the same review again (a retried write) changes nothing that would
+ * count twice, and a review older than the saved one is ignored. A failed
+ * list move is returned as an error, so the outbox keeps the write.
+ */
+export async function gradeWordReview(
+  userId: string,
+  word: Word,
+  next: SrsState,
+  quality: ReviewQuality,
+  hintsUsed = 0,
+  direction: ReviewDirection = 'recall'
+) {
+  console.log('[Supabase DB] Grading review:', word.korean, 'quality:', quality, 'hints:', hintsUsed)
+
+  const { data: existing, error: fetchError } = await getSupabase()
+    .from('word_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('word_id', word.id)
+    .eq('direction', direction)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('[Supabase DB] Error loading review state:', fetchError.message)
+    return { data: null, error: fetchError }
+  }
+
+  const previous = (existing as WordReview | null) ?? null
+  const savedAt = previous?.last_reviewed_at ?? null
+  if (savedAt && next.last_reviewed_at && savedAt > next.last_reviewed_at) {
+    console.log('[Supabase DB] A later review is already saved, skipping:', word.korean)
+    return { data: previous, error: null }
+  }
+
+  if (savedAt && savedAt === next.last_reviewed_at) {
+    // Already saved: redo the list moves without counting the fail again
+    const moveError =
+      direction === 'recall' ? await moveGradedWord(userId, word, isPassingQuality(quality), false) : null
+    return moveError ? { data: null, error: moveError } : { data: previous, error: null }
+  }
+
+  const { data, error } = await getSupabase()
+    .from('word_reviews')
+    .upsert({
+      user_id: userId,
+      word_id: word.id,
+      direction,
+      ...next,
+      last_hints_used: hintsUsed,
+      total_hints_used: (previous?.total_hints_used ?? 0) + hintsUsed,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,word_id,direction' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Supabase DB] Error saving review state:', error.message)
+    return { data: null, error }
+  }
+
+  if (direction !== 'recall') {
+    console.log(`[Supabase DB] Review graded (${direction}), next due:`, next.due_at)
+    return { data: data as WordReview, error: null }
+  }
+
+  // A lapse moves a learned word back to the review list
+  const moveError = await moveGradedWord(userId, word, isPassingQuality(quality), true)
+  if (moveError) return { data: null, error: moveError }
+
+  console.log('[Supabase DB] Review graded, next due:', next.due_at)
+  return { data: data as WordReview, error: null }
+}
+
+/**
+ * Queue a word for Recall Mode review on request: due right away and moved
+ * to the review list, keeping its ease and lapse history
+ */
+export async function requeueWordReview(userId: string, word: Word) {
+  console.log('[Supabase DB] Queueing word for review:', word.korean)
+
+  const { data: existing, error: fetchError } = await getSupabase()
+    .from('word_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('word_id', word.id)
+    .eq('direction', 'recall')
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('[Supabase DB] Error loading review state:', fetchError.message)
+    return { data: null, error: fetchError }
+  }
+
+  const { data, error } = await getSupabase()
+    .from('word_reviews')
+    .upsert({
+      user_id: userId,
+      word_id: word.id,
+      direction: 'recall',
+      ...markForReview((existing as WordReview | null) ?? null),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,word_id,direction' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Supabase DB] Error queueing word for review:', error.message)
+    return { data: null, error }
+  }
+
+  const moveError = await moveGradedWord(userId, word, false, true)
+  if (moveError) return { data: null, error: moveError }
+
+  return { data: data as WordReview, error: null }
+}
+
+// ============================================================================
+// Guest Progress Merge (see lib/guestProgress.ts)
+// ============================================================================
+
+/**
+ * Move progress made while signed out into the account. The account is
+ * loaded first and planGuestMerge() decides what changes, so words and
+ * schedules the account already has are never added twice. Fails and stats
+ * that reached the account are noted in the guest copy (recordGuestMerge()),
+ * which is kept if a later step fails: running the merge again only adds
+ * what is still missing.
+ */
+export async function mergeGuestProgress(userId: string, guest: GuestProgress) {
+  console.log('[Supabase DB] Merging guest progress for user:', userId)
+
+  const [stats, learned, review, reviews] = await Promise.all([
+    fetchUserStats(userId),
+    fetchLearnedWords(userId),
+    fetchReviewWords(userId),
+    fetchWordReviews(userId),
+  ])
+  const loadError = stats.error ?? learned.error ?? review.error ?? reviews.error
+  if (loadError) {
+    console.error('[Supabase DB] Error loading account for guest merge:', loadError.message)
+    return { data: null, error: loadError }
+  }
+
+  const pending = unmergedGuestProgress(guest, userId)
+  const guestFails = new Map(guest.review.map((entry) => [entry.word_id, entry.failed_count]))
+  const plan = planGuestMerge(pending, {
+    stats: stats.data,
+    learnedIds: learned.data.map((lw) => lw.word_id),
+    review: review.data,
+    reviewKeys: reviews.data.map((r) => reviewKey(r.word_id, r.direction ?? 'recall')),
+  })
+
+  // Words no longer in the word list can't be merged
+  const addLearned = plan.addLearned.filter((entry) => wordsById.has(entry.word_id))
+  const addReview = plan.addReview.filter((entry) => wordsById.has(entry.word_id))
+
+  for (const entry of addLearned) {
+    const { error } = await addLearnedWord(userId, wordsById.get(entry.word_id)!)
+    if (error) return { data: null, error }
+  }
+
+  if (addReview.length > 0) {
+    const rows = await Promise.all(
+      addReview.map((entry) =>
+        newReviewRow(userId, wordsById.get(entry.word_id)!, entry.failed_count, entry.added_at)
+      )
+    )
+    const { error } = await getSupabase()
+      .from('review_words')
+      .upsert(rows, { onConflict: 'user_id,word_id', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('[Supabase DB] Error merging review words:', error.message)
+      return { data: null, error }
+    }
+    await recordGuestMerge(userId, {
+      failCounts: Object.fromEntries(addReview.map((entry) => [entry.word_id, guestFails.get(entry.word_id)!])),
+    })
+  }
+
+  for (const row of plan.updateReview) {
+    const { error } = await getSupabase()
+      .from('review_words')
+      .update({ failed_count: row.failed_count, updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+    if (error) {
+      console.error('[Supabase DB] Error merging review word fail count:', error.message)
+      return { data: null, error }
+    }
+    await recordGuestMerge(userId, { failCounts: { [row.word_id]: guestFails.get(row.word_id)! } })
+  }
+
+  if (plan.addReviews.length > 0) {
+    const { error } = await getSupabase().from('word_reviews').upsert(
+      plan.addReviews.map((state) => ({
+        ...state,
+        user_id: userId,
+        last_hints_used: 0,
+        total_hints_used: 0,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'user_id,word_id,direction', ignoreDuplicates: true }
+    )
+    if (error) {
+      console.error('[Supabase DB] Error merging review schedules:', error.message)
+      return { data: null, error }
+    }
+  }
+
+  if (plan.stats) {
+    const { error } = await upsertUserStats(userId, plan.stats)
+    if (error) return { data: null, error }
+    await recordGuestMerge(userId, { stats: guest.stats })
+  }
+
+  const summary: GuestMergeSummary = {
+    points: pending.stats.score,
+    answers: pending.stats.total_words_completed,
+    learnedAdded: addLearned.length,
+    reviewAdded: addReview.length,
+    reviewUpdated: plan.updateReview.length,
+    schedulesAdded: plan.addReviews.length,
+    alreadyTracked: plan.alreadyTracked,
+  }
+  console.log('[Supabase DB] Guest progress merged:', summary)
+  return { data: summary, error: null }
+}
+
+// ============================================================================
+// Custom Decks (see DECKS_SETUP.sql)
+// ============================================================================
+
+export interface Deck {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  created_at: string
+  updated_at: string
+  word_ids: string[] // from deck_words, in practice order
+}
+
+interface DeckWordRow {
+  deck_id: string
+  word_id: string
+  position: number
+}
+
+/**
+ * Fetch the user's decks with their word ids, sorted by name
+ */
+export async function fetchDecks(userId: string) {
+  const [decksResult, wordsResult] = await Promise.all([
+    getSupabase().from('decks').select('*').eq('user_id', userId).order('name'),
+    getSupabase()
+      .from('deck_words')
+      .select('deck_id, word_id, position')
+      .eq('user_id', userId)
+      .order('position')
+      .order('added_at'),
+  ])
+
+  const error = decksResult.error ?? wordsResult.error
+  if (error) {
+    console.error('[Supabase DB] Error fetching decks:', error.message)
+    return { data: [] as Deck[], error }
+  }
+
+  const wordIds = new Map<string, string[]>()
+  for (const row of (wordsResult.data as DeckWordRow[]) || []) {
+    const ids = wordIds.get(row.deck_id)
+    if (ids) ids.push(row.word_id)
+    else wordIds.set(row.deck_id, [row.word_id])
+  }
+
+  const decks = ((decksResult.data as Omit<Deck, 'word_ids'>[]) || []).map((deck) => ({
+    ...deck,
+    word_ids: wordIds.get(deck.id) ?? [],
+  }))
+  return { data: decks, error: null }
+}
+
+/**
+ * Create an empty deck
+ */
+export async function createDeck(userId: string, name: string, description: string | null = null) {
+  console.log('[Supabase DB] Creating deck:', name)
+
+  const { data, error } = await getSupabase()
+    .from('decks')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      description,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Supabase DB] Error creating deck:', error.message)
+    return { data: null, error }
+  }
+
+  return { data: { ...(data as Omit<Deck, 'word_ids'>), word_ids: [] } as Deck, error: null }
+}
+
+/**
+ * Rename a deck or change its description
+ */
+export async function updateDeck(
+  userId: string,
+  deckId: string,
+  changes: { name?: string; description?: string | null }
+) {
+  const { error } = await getSupabase()
+    .from('decks')
+    .update({
+      ...changes,
+      ...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', deckId)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('[Supabase DB] Error updating deck:', error.message)
+  }
+
+  return { error }
+}
+
+/**
+ * Delete a deck and its word list (the words' progress is kept)
+ */
+export async function deleteDeck(userId: string, deckId: string) {
+  console.log('[Supabase DB] Deleting deck:', deckId)
+
+  const { error } = await getSupabase()
+    .from('decks')
+    .delete()
+    .eq('id', deckId)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('[Supabase DB] Error deleting deck:', error.message)
+  }
+
+  return { error }
+}
+
+/**
+ * Append words to a deck. Words already in it are left where they are.
+ * `startPosition` is the deck's current size, so new words go at the end.
+ */
+export async function addWordsToDeck(
+  userId: string,
+  deckId: string,
+  wordIds: string[],
+  startPosition: number
+) {
+  if (wordIds.length === 0) return { error: null }
+  console.log('[Supabase DB] Adding', wordIds.length, 'word(s) to deck:', deckId)
+
+  const { error } = await getSupabase()
+    .from('deck_words')
+    .upsert(
+      wordIds.map((wordId, idx) => ({
+        deck_id: deckId,
+        user_id: userId,
+        word_id: wordId,
+        position: startPosition + idx,
+        added_at: new Date().toISOString(),
+      })),
+      { onConflict: 'deck_id,word_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('[Supabase DB] Error adding words to deck:', error.message)
+  }
+
+  return { error }
+}
+
+/**
+ * Remove a word from a deck
+ */
+export async function removeWordFromDeck(userId: string, deckId: string, wordId: string) {
+  const { error } = await getSupabase()
+    .from('deck_words')
+    .delete()
+    .eq('user_id', userId)
+    .eq('deck_id', deckId)
+    .eq('word_id', wordId)
+
+  if (error) {
+    console.error('[Supabase DB] Error removing word from deck:', error.message)
+  }
+
+  return { error }
+}
+
+// ============================================================================
+// Custom Words (see CUSTOM_WORDS_SETUP.sql)
+// ============================================================================
+
+/**
+ * Fetch the user's imported custom words
+ */
+export async function fetchCustomWords(userId: string) {
+  const { data, error } = await getSupabase()
+    .from('custom_words')
+    .select('word_id, korean, en, hanja, classification, zh')
+    .eq('user_id', userId)
+    .order('created_at')
+
+  if (error) {
+    console.error('[Supabase DB] Error fetching custom words:', error.message)
+    return { data: [] as CustomWordEntry[], error }
+  }
+
+  return { data: (data as CustomWordEntry[]) || [], error: null }
+}
+
+/**
+ * Save imported words that aren't in the word list. Words already saved
+ * under the same id are updated.
+ */
+export async function saveCustomWords(userId: string, words: Word[]) {
+  if (words.length === 0) return { error: null }
+  console.log('[Supabase DB] Saving', words.length, 'custom word(s)')
+
+  const { error } = await getSupabase()
+    .from('custom_words')
+    .upsert(
+      words.map((word) => ({
+        user_id: userId,
+        word_id: word.id,
+        korean: word.korean,
+        en: word.en,
+        hanja: word.hanja ?? null,
+        classification: word.classification ?? null,
+        zh: word.zh,
+      })),
+      { onConflict: 'user_id,word_id' }
+    )
+
+  if (error) {
+    console.error('[Supabase DB] Error saving custom words:', error.message)
+  }
+
+  return { error }
+}
+
+// ============================================================================
+// Legacy Word Id Migration
+// ============================================================================
+// Progress saved before words had explicit ids is keyed by array position
+// (`word_${index}_${korean}`). These rows are remapped to the current ids on
+// sign-in; rows whose word can't be identified are left untouched and
+// reported. Once a run finishes without errors it is remembered for the user
+// on this device and not repeated.
+
+export interface WordIdMigrationReport {
+  migrated: number
+  unmatched: { table: string; word_id: string }[]
+}
+
+// Tables keyed by word_id. Users may only change their pending reports
+// (update_own_pending_reports), so reviewed ones keep their ids.
+const WORD_ID_TABLES: { table: string; pendingOnly?: boolean }[] = [
+  { table: 'learned_words' },
+  { table: 'review_words' },
+  { table: 'word_reviews' },
+  { table: 'reported_meanings', pendingOnly: true },
+]
+
+const MIGRATION_DONE_KEY = 'korean-typing-word-ids-migrated'
+
+// The columns the migration reads from any of those tables
+interface LegacyWordIdRow {
+  id: string
+  word_id: string
+  word_data?: Word | null
+  current_meaning?: string
+}
+
+function migrationDoneFor(userId: string): boolean {
+  if (typeof localStorage === 'undefined') return false
+  return localStorage.getItem(`${MIGRATION_DONE_KEY}:${userId}`) === '1'
+}
+
+function rememberMigrationDone(userId: string) {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(`${MIGRATION_DONE_KEY}:${userId}`, '1')
+}
+
+/**
+ * Remap the user's legacy word ids in every progress table. Only rows that
+ * actually changed are counted; rows the database wouldn't let the user
+ * change are logged and left as they are.
+ */
+export async function migrateLegacyWordIds(userId: string): Promise<WordIdMigrationReport> {
+  const report: WordIdMigrationReport = { migrated: 0, unmatched: [] }
+  if (migrationDoneFor(userId)) return report
+
+  let failed = false
+  for (const { table, pendingOnly } of WORD_ID_TABLES) {
+    // `*` because word_data / current_meaning exist only in some tables;
+    // the like filter keeps it to (mostly) legacy rows
+    let query = getSupabase()
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .like('word_id', 'word_%')
+    if (pendingOnly) query = query.eq('status', 'pending')
+    const { data, error } = await query
+
+    if (error) {
+      console.error(`[Supabase DB] Error loading ${table} for id migration:`, error.message)
+      failed = true
+      continue
+    }
+
+    const legacyRows = ((data as LegacyWordIdRow[]) || []).filter((row) => isLegacyWordId(row.word_id))
+    for (const row of legacyRows) {
+      // Legacy snapshots (or the reported meaning) disambiguate words spelled alike
+      const newId = resolveLegacyWordId(row.word_id, row.word_data ?? { en: row.current_meaning })
+      const word = newId ? wordsById.get(newId) : undefined
+      if (!word) {
+        report.unmatched.push({ table, word_id: row.word_id })
+        continue
+      }
+
+      const { data: updated, error: updateError } = await getSupabase()
+        .from(table)
+        .update({ word_id: word.id })
+        .eq('id', row.id)
+        .select('id')
+
+      let changed = (updated?.length ?? 0) > 0
+      if (updateError?.code === '23505') {
+        // The user already has a row under the new id; drop the legacy duplicate
+        const { data: deleted, error: deleteError } = await getSupabase()
+          .from(table)
+          .delete()
+          .eq('id', row.id)
+          .select('id')
+        if (deleteError) {
+          console.error(`[Supabase DB] Error deleting legacy ${table} duplicate:`, deleteError.message)
+          failed = true
+          continue
+        }
+        changed = (deleted?.length ?? 0) > 0
+      } else if (updateError) {
+        console.error(`[Supabase DB] Error migrating ${table} row:`, updateError.message)
+        report.unmatched.push({ table, word_id: row.word_id })
+        failed = true
+        continue
+      }
+
+      if (changed) {
+        report.migrated += 1
+      } else {
+        console.warn(`[Supabase DB] Not allowed to migrate ${table} row, leaving it:`, row.word_id)
+      }
+    }
+  }
+
+  if (!failed) rememberMigrationDone(userId)
+  if (report.migrated > 0 || report.unmatched.length > 0) {
+    console.log('[Supabase DB] Word id migration:', report.migrated, 'migrated,', report.unmatched.length, 'unmatched', report.unmatched)
+  }
+  return report
+}
+
+// ============================================================================
+// Schema Health (admin, see SCHEMA_HEALTH_SETUP.sql)
+// ============================================================================
+
+/**
+ * Tables, unique indexes and RLS policies of the public schema, read by the
+ * schema_health() function (admins only)
+ */
+export async function fetchSchemaSnapshot() {
+  const { data, error } = await getSupabase().rpc('schema_health')
+
+  if (error) {
+    console.error('[Supabase DB] Error loading schema snapshot:', error.message)
+    return { data: null, error }
+  }
+
+  return { data: data as SchemaSnapshot, error: null }
+}
+
+/**
+ * Whether each table can be reached through the API (true), is missing
+ * (false) or couldn't be checked (null). Works without schema_health().
+ */
+export async function probeTables(tables: string[]) {
+  const results = await Promise.all(
+    tables.map(async (table): Promise<[string, boolean | null]> => {
+      const { error } = await getSupabase().from(table).select('*').limit(1)
+      if (!error) return [table, true]
+      if (error.code === '42P01' || error.code === 'PGRST205') return [table, false]
+      console.warn(`[Supabase DB] Could not probe ${table}:`, error.message)
+      return [table, null]
+    })
+  )
+  return new Map(results)
 }
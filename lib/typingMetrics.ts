@@ -0,0 +1,122 @@
+import { toKeystrokes } from './hangul'
+
+// ============================================================================
+// Typing speed metrics (타수 / syllables per minute)
+// ============================================================================
+// Korean typing speed is measured in strokes per minute (타수): every jamo key
+// needed to type the word counts as one stroke, so 과 is 3 strokes (ㄱ ㅗ ㅏ)
+// and 닭 is 4 (ㄷ ㅏ ㄹ ㄱ). Timing starts at the first keystroke, while the
+// time spent reading the word before typing is reported separately.
+
+export interface KeystrokeSample {
+  at: number // performance.now() timestamp
+  input: string // input value right after the keystroke
+}
+
+export interface WordTiming {
+  target: string
+  shownAt: number
+  keystrokes: KeystrokeSample[]
+  completedAt: number
+}
+
+export interface WordSpeed {
+  strokes: number
+  syllables: number
+  typingMs: number
+  strokesPerMinute: number // 타수
+  syllablesPerMinute: number
+  timeToFirstKeyMs: number
+}
+
+export interface SessionSpeed {
+  wordsTimed: number
+  avgStrokesPerMinute: number
+  bestStrokesPerMinute: number
+  avgSyllablesPerMinute: number
+  avgTimeToFirstKeyMs: number
+}
+
+// Anything faster than this is a paste or an autofill, not typing
+const MIN_TYPING_MS = 150
+
+const perMinute = (count: number, ms: number): number =>
+  ms <= 0 ? 0 : Math.round((count / ms) * 60_000)
+
+/**
+ * Count the syllables in a word (non-Hangul characters count as one each)
+ */
+export function countSyllables(text: string): number {
+  return Array.from(text).filter((ch) => ch.trim() !== '').length
+}
+
+/**
+ * Count the 2-beolsik strokes needed to type a word
+ */
+export function countStrokes(text: string): number {
+  return toKeystrokes(text).filter((key) => key.trim() !== '').length
+}
+
+/**
+ * Compute speed metrics for one finished word.
+ * Returns null when there is nothing meaningful to measure.
+ */
+export function computeWordSpeed(timing: WordTiming): WordSpeed | null {
+  const first = timing.keystrokes[0]
+  if (!first) return null
+
+  const typingMs = timing.completedAt - first.at
+  if (typingMs < MIN_TYPING_MS) return null
+
+  const strokes = countStrokes(timing.target)
+  const syllables = countSyllables(timing.target)
+
+  return {
+    strokes,
+    syllables,
+    typingMs,
+    strokesPerMinute: perMinute(strokes, typingMs),
+    syllablesPerMinute: perMinute(syllables, typingMs),
+    timeToFirstKeyMs: Math.max(0, Math.round(first.at - timing.shownAt)),
+  }
+}
+
+/**
+ * Live 타수 for the word currently being typed, based on what is typed so far
+ */
+export function computeLiveStrokesPerMinute(keystrokes: KeystrokeSample[], now: number): number {
+  const first = keystrokes[0]
+  const last = keystrokes[keystrokes.length - 1]
+  if (!first || !last) return 0
+
+  return perMinute(countStrokes(last.input), now - first.at)
+}
+
+/**
+ * Aggregate per-word speeds into session values.
+ * Averages are weighted by typing time so short words don't dominate.
+ */
+export function summarizeSession(speeds: WordSpeed[]): SessionSpeed {
+  if (speeds.length === 0) {
+    return {
+      wordsTimed: 0,
+      avgStrokesPerMinute: 0,
+      bestStrokesPerMinute: 0,
+      avgSyllablesPerMinute: 0,
+      avgTimeToFirstKeyMs: 0,
+    }
+  }
+
+  const totalMs = speeds.reduce((sum, s) => sum + s.typingMs, 0)
+  const totalStrokes = speeds.reduce((sum, s) => sum + s.strokes, 0)
+  const totalSyllables = speeds.reduce((sum, s) => sum + s.syllables, 0)
+  const totalFirstKey = speeds.reduce((sum, s) => sum + s.timeToFirstKeyMs, 0)
+
+  return {
+    wordsTimed: speeds.length,
+    avgStrokesPerMinute: perMinute(totalStrokes, totalMs),
+    bestStrokesPerMinute: Math.max(...speeds.map((s) => s.strokesPerMinute)),
+    avgSyllablesPerMinute: perMinute(totalSyllables, totalMs),
+    avgTimeToFirstKeyMs: Math.round(totalFirstKey / speeds.length),
+  }
+}
@@ -0,0 +1,375 @@
+import { parseSenses } from './meaning'
+
+// ============================================================================
+// Vocabulary dataset: build and validation
+// ============================================================================
+// The app dataset (data/topik_vocab_with_wiktionary.json) is built from the
+// TOPIK vocabulary CSV by scripts/build-vocab.ts:
+//   CSV rows -> entries -> ids (kept from the previous dataset) -> validation
+// A dataset with errors is never written; warnings are reported but don't
+// block the build (the source list has known frequency gaps, unranked place
+// names and a few entries linking to Wikipedia).
+
+/**
+ * One entry of the dataset JSON (what data/words.ts loads)
+ */
+export interface VocabEntry {
+  id: string
+  korean: string
+  en: string
+  zh: string | null
+  hanja: string | null
+  classification: string | null
+  frequency: number | null
+  complexity: string | null
+  wordreferencelink: string | null
+  wiktionarylink: string | null
+}
+
+export type VocabDraft = Omit<VocabEntry, 'id'>
+
+export const VALID_COMPLEXITIES = ['A', 'B', 'C', 'D']
+
+/**
+ * Complexity as used by the app: null and 'E' are treated as 'D'
+ */
+export const normalizeComplexity = (complexity: string | null): string =>
+  complexity === null || complexity === 'E' ? 'D' : complexity
+
+// ============================================================================
+// CSV -> entries
+// ============================================================================
+
+// Column names of the source CSV
+const CSV_COLUMNS = {
+  korean: 'Word',
+  en: 'English',
+  hanja: 'Hanja/Ref.',
+  classification: 'Classification',
+  frequency: 'Frequency Rank',
+  complexity: 'Complexity',
+  wordreferencelink: 'Wordreference Link',
+  wiktionarylink: 'Wiktionary Link',
+} as const
+
+export interface VocabIssue {
+  level: 'error' | 'warning'
+  check: string
+  message: string
+}
+
+/**
+ * Convert CSV records (keyed by header) into dataset entries. Fields are
+ * trimmed and empty fields become null. Throws when required columns are
+ * missing; rows with an unreadable frequency are reported as issues.
+ */
+export function draftsFromCsv(
+  headers: string[],
+  records: Record<string, string>[]
+): { drafts: VocabDraft[]; issues: VocabIssue[] } {
+  const missingColumns = Object.values(CSV_COLUMNS).filter((column) => !headers.includes(column))
+  if (missingColumns.length > 0) {
+    throw new Error(`CSV is missing column(s): ${missingColumns.join(', ')}`)
+  }
+
+  const issues: VocabIssue[] = []
+  const text = (record: Record<string, string>, column: string): string | null =>
+    record[column]?.trim() || null
+
+  const drafts = records.map((record, idx) => {
+    const rawFrequency = text(record, CSV_COLUMNS.frequency)
+    let frequency: number | null = null
+    if (rawFrequency !== null) {
+      frequency = Number(rawFrequency)
+      if (!Number.isInteger(frequency) || frequency < 1) {
+        issues.push({
+          level: 'error',
+          check: 'frequency',
+          // +2: 1-based, after the header row
+          message: `CSV line ${idx + 2}: frequency rank "${rawFrequency}" is not a positive integer`,
+        })
+        frequency = null
+      }
+    }
+
+    return {
+      korean: text(record, CSV_COLUMNS.korean) ?? '',
+      en: text(record, CSV_COLUMNS.en) ?? '',
+      zh: null,
+      hanja: text(record, CSV_COLUMNS.hanja),
+      classification: text(record, CSV_COLUMNS.classification),
+      frequency,
+      complexity: text(record, CSV_COLUMNS.complexity),
+      wordreferencelink: text(record, CSV_COLUMNS.wordreferencelink),
+      wiktionarylink: text(record, CSV_COLUMNS.wiktionarylink),
+    }
+  })
+
+  return { drafts, issues }
+}
+
+// ============================================================================
+// Word ids
+// ============================================================================
+// Ids are korean + "-" + classification, and when several entries share
+// both, a sense discriminator (the first English meaning, else the frequency
+// rank). Ids from the previous dataset are kept so rebuilding never changes
+// an existing word's id.
+
+const baseId = (entry: VocabDraft): string =>
+  `${entry.korean}-${(entry.classification ?? 'word').replace(/ /g, '_')}`
+
+const slug = (text: string, maxWords = 3): string =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !['a', 'an', 'the', 'to'].includes(word))
+    .slice(0, maxWords)
+    .join('_')
+
+const firstMeaning = (en: string): string => {
+  const sense = en.split(/(?:^|\s)\d+\.\s*/).find((s) => s.trim()) ?? ''
+  return sense.split(/[;,]/)[0]
+}
+
+/**
+ * Give every entry an id, reusing ids from `previous` for the same word
+ * (same korean + classification, matched by meaning, then frequency rank)
+ */
+export function assignWordIds(drafts: VocabDraft[], previous: VocabEntry[]): VocabEntry[] {
+  const previousByBase = new Map<string, VocabEntry[]>()
+  for (const entry of previous) {
+    const group = previousByBase.get(baseId(entry))
+    if (group) group.push(entry)
+    else previousByBase.set(baseId(entry), [entry])
+  }
+
+  const taken = new Set<string>()
+  const ids: (string | null)[] = drafts.map((draft) => {
+    const candidates = (previousByBase.get(baseId(draft)) ?? []).filter((p) => !taken.has(p.id))
+    const match =
+      candidates.find((p) => p.en === draft.en) ??
+      (draft.frequency !== null ? candidates.find((p) => p.frequency === draft.frequency) : undefined) ??
+      (candidates.length === 1 && previousByBase.get(baseId(draft))?.length === 1 ? candidates[0] : undefined)
+    if (!match) return null
+    taken.add(match.id)
+    return match.id
+  })
+
+  const groupSizes = new Map<string, number>()
+  for (const draft of drafts) {
+    groupSizes.set(baseId(draft), (groupSizes.get(baseId(draft)) ?? 0) + 1)
+  }
+
+  return drafts.map((draft, idx) => {
+    let id = ids[idx]
+    if (id === null) {
+      const base = baseId(draft)
+      const groupSize = groupSizes.get(base) ?? 1
+      const candidates = groupSize === 1 ? [base] : []
+      const meaning = slug(firstMeaning(draft.en))
+      if (meaning) candidates.push(`${base}-${meaning}`)
+      if (draft.frequency !== null) candidates.push(`${base}-f${draft.frequency}`)
+      for (let n = 2; n < groupSize + 2; n++) candidates.push(`${base}-${n}`)
+      id = candidates.find((c) => !taken.has(c)) ?? `${base}-${idx}`
+      taken.add(id)
+    }
+    return { id, ...draft }
+  })
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const describe = (entry: Partial<VocabEntry>, idx: number): string =>
+  `#${idx + 1} ${entry.korean || '(no word)'}${entry.classification ? ` (${entry.classification})` : ''}`
+
+const LINK_HOSTS: Record<'wordreferencelink' | 'wiktionarylink', { host: string; prefix: string }> = {
+  wordreferencelink: { host: 'www.wordreference.com', prefix: '/koen/' },
+  wiktionarylink: { host: 'en.wiktionary.org', prefix: '/wiki/' },
+}
+
+/**
+ * Check a link field: malformed links are errors; missing links and links
+ * to another site or another word are warnings
+ */
+function checkLink(
+  entry: Partial<VocabEntry>,
+  field: 'wordreferencelink' | 'wiktionarylink',
+  label: string
+): VocabIssue | null {
+  const link = entry[field]
+  if (!link) {
+    return { level: 'warning', check: 'links', message: `${label}: no ${field}` }
+  }
+
+  let url: URL
+  try {
+    url = new URL(link)
+  } catch {
+    return { level: 'error', check: 'links', message: `${label}: ${field} is not a URL: ${JSON.stringify(link)}` }
+  }
+  if (link !== link.trim() || url.protocol !== 'https:') {
+    return { level: 'error', check: 'links', message: `${label}: malformed ${field}: ${JSON.stringify(link)}` }
+  }
+
+  const { host, prefix } = LINK_HOSTS[field]
+  if (url.host !== host || !url.pathname.startsWith(prefix)) {
+    return { level: 'warning', check: 'links', message: `${label}: ${field} points to ${url.host}${url.pathname}` }
+  }
+  const target = decodeURIComponent(url.pathname.slice(prefix.length))
+  if (target !== entry.korean) {
+    return { level: 'warning', check: 'links', message: `${label}: ${field} is for "${target}"` }
+  }
+  return null
+}
+
+/**
+ * Collapse sorted missing ranks into "a–b" ranges
+ */
+function rankRanges(missing: number[]): string[] {
+  const ranges: string[] = []
+  for (let i = 0; i < missing.length; i++) {
+    const start = missing[i]
+    while (missing[i + 1] === missing[i] + 1) i++
+    ranges.push(start === missing[i] ? `${start}` : `${start}–${missing[i]}`)
+  }
+  return ranges
+}
+
+/**
+ * Validate a dataset. Entries are typed loosely because variant and
+ * hand-edited files may lack fields.
+ */
+export function validateVocab(entries: Partial<VocabEntry>[]): VocabIssue[] {
+  const issues: VocabIssue[] = []
+  const add = (level: VocabIssue['level'], check: string, message: string) =>
+    issues.push({ level, check, message })
+
+  const byId = new Map<string, number>()
+  const byPair = new Map<string, number[]>()
+  const byRank = new Map<number, number>()
+
+  entries.forEach((entry, idx) => {
+    const label = describe(entry, idx)
+
+    // Ids
+    if (!entry.id) {
+      add('error', 'ids', `${label}: no id`)
+    } else if (byId.has(entry.id)) {
+      add('error', 'ids', `${label}: id "${entry.id}" already used by ${describe(entries[byId.get(entry.id)!], byId.get(entry.id)!)}`)
+    } else {
+      byId.set(entry.id, idx)
+    }
+
+    // Required fields
+    if (!entry.korean?.trim()) add('error', 'missing fields', `${label}: no Korean word`)
+    if (!entry.en?.trim() || parseSenses(entry.en).length === 0) {
+      add('error', 'missing fields', `${label}: no English meaning`)
+    }
+    if (!entry.classification) add('warning', 'missing fields', `${label}: no classification`)
+
+    // Complexity
+    const complexity = normalizeComplexity(entry.complexity ?? null)
+    if (!VALID_COMPLEXITIES.includes(complexity)) {
+      add('error', 'complexity', `${label}: complexity "${entry.complexity}" is not A, B, C, D or E`)
+    }
+
+    // Frequency
+    const rank = entry.frequency
+    if (rank === null || rank === undefined) {
+      add('warning', 'frequency', `${label}: no frequency rank`)
+    } else if (!Number.isInteger(rank) || rank < 1) {
+      add('error', 'frequency', `${label}: frequency rank ${rank} is not a positive integer`)
+    } else if (byRank.has(rank)) {
+      add('error', 'frequency', `${label}: frequency rank ${rank} already used by ${describe(entries[byRank.get(rank)!], byRank.get(rank)!)}`)
+    } else {
+      byRank.set(rank, idx)
+    }
+
+    // Links
+    for (const field of ['wordreferencelink', 'wiktionarylink'] as const) {
+      const issue = checkLink(entry, field, label)
+      if (issue) issues.push(issue)
+    }
+
+    if (entry.korean) {
+      const pair = `${entry.korean}\u0000${entry.classification ?? ''}`
+      const group = byPair.get(pair)
+      if (group) group.push(idx)
+      else byPair.set(pair, [idx])
+    }
+  })
+
+  // Same word + class: an error when meaning and Hanja/Ref. are the same too
+  // (nothing tells the entries apart), a warning for homonyms
+  for (const indexes of byPair.values()) {
+    if (indexes.length < 2) continue
+    const labels = indexes.map((idx) => describe(entries[idx], idx)).join(', ')
+    const senses = new Set(
+      indexes.map((idx) => {
+        const { en, hanja } = entries[idx]
+        return `${(en ?? '').toLowerCase().replace(/\s+/g, ' ').trim()}\u0000${hanja ?? ''}`
+      })
+    )
+    if (senses.size < indexes.length) {
+      add('error', 'duplicates', `${labels}: duplicate entries (same meaning and Hanja/Ref.)`)
+    } else {
+      add('warning', 'duplicates', `${labels}: same word and class`)
+    }
+  }
+
+  // Gaps in the frequency ranking
+  const ranks = Array.from(byRank.keys()).sort((a, b) => a - b)
+  const missing: number[] = []
+  for (let rank = 1; rank < (ranks[ranks.length - 1] ?? 0); rank++) {
+    if (!byRank.has(rank)) missing.push(rank)
+  }
+  if (missing.length > 0) {
+    const ranges = rankRanges(missing)
+    const shown = ranges.slice(0, 20).join(', ')
+    add(
+      'warning',
+      'frequency',
+      `${missing.length} missing rank(s) in ${ranges.length} gap(s): ${shown}${ranges.length > 20 ? ', …' : ''}`
+    )
+  }
+
+  return issues
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Human-readable report, grouped by check. At most `limit` messages are
+ * listed per check and level.
+ */
+export function formatVocabReport(
+  source: string,
+  entryCount: number,
+  issues: VocabIssue[],
+  limit = 15
+): string {
+  const errors = issues.filter((issue) => issue.level === 'error').length
+  const warnings = issues.length - errors
+  const lines = [`${source}: ${entryCount} entries, ${errors} error(s), ${warnings} warning(s)`]
+
+  for (const level of ['error', 'warning'] as const) {
+    const checks = new Map<string, string[]>()
+    for (const issue of issues) {
+      if (issue.level !== level) continue
+      const messages = checks.get(issue.check)
+      if (messages) messages.push(issue.message)
+      else checks.set(issue.check, [issue.message])
+    }
+
+    for (const [check, messages] of checks) {
+      lines.push('', `${level === 'error' ? 'ERROR' : 'warning'} · ${check} (${messages.length})`)
+      for (const message of messages.slice(0, limit)) lines.push(`  ${message}`)
+      if (messages.length > limit) lines.push(`  … and ${messages.length - limit} more`)
+    }
+  }
+
+  return lines.join('\n')
+}
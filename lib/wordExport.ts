@@ -0,0 +1,161 @@
+import type { Word } from '@/data/words'
+import { formatDelimited } from './csv'
+import type { Sense } from './meaning'
+
+// ============================================================================
+// Word list export (CSV / TSV / Anki)
+// ============================================================================
+// Words from the Learned/To Review tabs or a deck, with the progress row
+// they came from, are written with the fields the user picked for each side
+// of a card. CSV and TSV get one column per field (front fields first); the
+// Anki file has a Front and a Back field and imports with
+// File → Import in Anki (notes in plain text, HTML enabled).
+
+export type ExportFormat = 'csv' | 'tsv' | 'anki'
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  anki: 'Anki (plain text)',
+}
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  anki: 'txt',
+}
+
+export const EXPORT_FIELDS = [
+  'korean',
+  'senses',
+  'hanja',
+  'classification',
+  'frequency',
+  'failed_count',
+  'learned_at',
+  'created_at',
+] as const
+export type ExportField = (typeof EXPORT_FIELDS)[number]
+
+export const EXPORT_FIELD_LABELS: Record<ExportField, string> = {
+  korean: 'Korean',
+  senses: 'Meaning',
+  hanja: 'Hanja',
+  classification: 'Class',
+  frequency: 'Frequency rank',
+  failed_count: 'Times failed',
+  learned_at: 'Learned at',
+  created_at: 'Added to review',
+}
+
+// Which side of the card each field goes on; fields not listed are left out
+export type CardSide = 'front' | 'back'
+export type ExportLayout = Partial<Record<ExportField, CardSide>>
+
+export const DEFAULT_EXPORT_LAYOUT: ExportLayout = {
+  korean: 'front',
+  senses: 'back',
+  hanja: 'back',
+}
+
+/**
+ * A word to export with what its LearnedWord / ReviewWord row adds
+ * (missing for words that have no such row, e.g. deck words)
+ */
+export interface ExportRow {
+  word: Word
+  failed_count?: number | null
+  learned_at?: string | null
+  created_at?: string | null
+}
+
+/**
+ * Senses as one line, numbered the way parseSenses() reads them back:
+ * "(1) to be; to exist (2) to have"
+ */
+export const formatSenses = (senses: Sense[]): string =>
+  senses.length === 1
+    ? senses[0].glosses.join('; ')
+    : senses.map((sense, idx) => `(${idx + 1}) ${sense.glosses.join('; ')}`).join(' ')
+
+function fieldValue(row: ExportRow, field: ExportField): string {
+  switch (field) {
+    case 'senses':
+      return formatSenses(row.word.senses)
+    case 'frequency':
+      return row.word.frequency?.toString() ?? ''
+    case 'failed_count':
+      return row.failed_count?.toString() ?? ''
+    case 'learned_at':
+    case 'created_at':
+      return row[field] ?? ''
+    default:
+      return row.word[field] ?? ''
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// One side of an Anki card: its fields as HTML lines, senses one per line
+function ankiSide(row: ExportRow, fields: ExportField[]): string {
+  return fields
+    .map((field) => {
+      if (field === 'senses' && row.word.senses.length > 1) {
+        return row.word.senses
+          .map((sense, idx) => `${idx + 1}. ${escapeHtml(sense.glosses.join('; '))}`)
+          .join('<br>')
+      }
+      const value = fieldValue(row, field)
+      return value && escapeHtml(value)
+    })
+    .filter((value) => value.length > 0)
+    .join('<br>')
+}
+
+/**
+ * Fields on each side, in EXPORT_FIELDS order
+ */
+export function layoutSides(layout: ExportLayout): Record<CardSide, ExportField[]> {
+  return {
+    front: EXPORT_FIELDS.filter((field) => layout[field] === 'front'),
+    back: EXPORT_FIELDS.filter((field) => layout[field] === 'back'),
+  }
+}
+
+/**
+ * Write the rows in the given format. Anki files carry the header lines
+ * that tell Anki the separator, that fields are HTML and where tags are;
+ * every note is tagged with `tag`.
+ */
+export function exportWords(
+  rows: ExportRow[],
+  format: ExportFormat,
+  layout: ExportLayout,
+  tag = 'korean-typing'
+): string {
+  const { front, back } = layoutSides(layout)
+
+  if (format === 'anki') {
+    const header = ['#separator:tab', '#html:true', '#tags column:3']
+    const notes = rows.map((row) => [ankiSide(row, front), ankiSide(row, back), tag])
+    return header.join('\n') + '\n' + formatDelimited(notes, '\t')
+  }
+
+  const fields = [...front, ...back]
+  return formatDelimited(
+    [
+      fields.map((field) => EXPORT_FIELD_LABELS[field]),
+      ...rows.map((row) => fields.map((field) => fieldValue(row, field))),
+    ],
+    format === 'tsv' ? '\t' : ','
+  )
+}
+
+/**
+ * Download file name, e.g. "korean-learned-2026-10-19.csv"
+ */
+export const exportFileName = (name: string, format: ExportFormat, date = new Date()): string =>
+  `korean-${name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')}-${date
+    .toISOString()
+    .slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`
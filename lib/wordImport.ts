@@ -0,0 +1,364 @@
+import {
+  CUSTOM_WORD_ID_PREFIX,
+  customWord,
+  type Word,
+} from '@/data/words'
+import { parseDelimited } from './csv'
+import { isHangulSyllable } from './hangul'
+import { isMeaningCorrect, parseSenses, splitMeanings } from './meaning'
+
+// ============================================================================
+// Word list import (CSV / TSV / Anki)
+// ============================================================================
+// Runs entirely in the browser:
+//   text -> table (columns + rows) -> column mapping -> preview rows
+// Each row is matched against the catalog by its Korean spelling (narrowed
+// down by meaning and hanja when several words share it). Rows that don't
+// match become custom words, which need at least a meaning. The preview is
+// what gets saved as a deck; rows with errors are left out.
+
+export type ImportFormat = 'csv' | 'tsv' | 'anki'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV (comma-separated)',
+  tsv: 'TSV (tab-separated)',
+  anki: 'Anki notes in plain text',
+}
+
+export interface ImportTable {
+  columns: string[]
+  rows: string[][]
+}
+
+/**
+ * Guess the format from the file name and contents. Anki exports start with
+ * `#separator:` / `#html:` header lines; otherwise tabs win over commas.
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  if (/^#(separator|html|columns|notetype|deck|tags|guid)/m.test(text.slice(0, 500))) return 'anki'
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'csv') return 'csv'
+  if (extension === 'tsv') return 'tsv'
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  return firstLine.includes('\t') ? 'tsv' : 'csv'
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse CSV or TSV. With `hasHeader` the first row names the columns;
+ * otherwise they are called "Column 1", "Column 2", ...
+ */
+export function parseDelimitedTable(text: string, delimiter: string, hasHeader: boolean): ImportTable {
+  const parsed = parseDelimited(text, delimiter)
+  const [first = [], ...rest] = parsed
+  const rows = hasHeader ? rest : parsed
+  const width = Math.max(first.length, ...rows.map((row) => row.length))
+  const columns = Array.from({ length: width }, (_, idx) =>
+    (hasHeader && first[idx]?.trim()) || `Column ${idx + 1}`
+  )
+  return { columns, rows }
+}
+
+// Values of Anki's #separator header
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+}
+
+// Anki header columns (`#tags column:3`) that aren't note fields
+const ANKI_META_COLUMNS: Record<string, string> = {
+  guid: 'GUID',
+  notetype: 'Note type',
+  deck: 'Deck',
+  tags: 'Tags',
+}
+
+/**
+ * Strip the HTML Anki stores in fields: line breaks and blocks become "; ",
+ * other tags and [sound:...] references are dropped, entities are decoded.
+ */
+export function stripAnkiHtml(field: string): string {
+  return field
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '; ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/(\s*;\s*)+$/, '')
+    .replace(/^(\s*;\s*)+/, '')
+    .replace(/\s*;\s*(;\s*)+/g, '; ')
+    .trim()
+}
+
+/**
+ * Parse an Anki "Notes in Plain Text" export. Header lines (`#key:value`)
+ * set the separator, whether fields are HTML and the column names; exports
+ * from older Anki versions have no headers and use tabs and HTML.
+ */
+export function parseAnkiExport(text: string): ImportTable {
+  let separator = '\t'
+  let html = true
+  let named: string[] | null = null
+  const metaColumns = new Map<number, string>()
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  let bodyStart = 0
+  while (bodyStart < lines.length && lines[bodyStart].startsWith('#')) {
+    const [key, ...rest] = lines[bodyStart].slice(1).split(':')
+    const value = rest.join(':').trim()
+    if (key === 'separator') separator = ANKI_SEPARATORS[value.toLowerCase()] ?? value
+    else if (key === 'html') html = value === 'true'
+    else if (key === 'columns') named = value.split(separator).map((name) => name.trim())
+    else {
+      const meta = /^(\w+) column$/.exec(key)
+      if (meta && ANKI_META_COLUMNS[meta[1]]) {
+        metaColumns.set(Number(value) - 1, ANKI_META_COLUMNS[meta[1]])
+      }
+    }
+    bodyStart++
+  }
+
+  const rows = parseDelimited(lines.slice(bodyStart).join('\n'), separator).map((row) =>
+    row.map((field, idx) => (html && !metaColumns.has(idx) ? stripAnkiHtml(field) : field))
+  )
+
+  const width = Math.max(named?.length ?? 0, ...rows.map((row) => row.length))
+  let fieldNumber = 0
+  const columns = Array.from({ length: width }, (_, idx) => {
+    const name = named?.[idx] || metaColumns.get(idx)
+    if (name) return name
+    fieldNumber++
+    return fieldNumber === 1 ? 'Front' : fieldNumber === 2 ? 'Back' : `Field ${fieldNumber}`
+  })
+  return { columns, rows }
+}
+
+/**
+ * Parse text in the given format
+ */
+export function parseImportText(text: string, format: ImportFormat, hasHeader: boolean): ImportTable {
+  if (format === 'anki') return parseAnkiExport(text)
+  return parseDelimitedTable(text, format === 'tsv' ? '\t' : ',', hasHeader)
+}
+
+// ============================================================================
+// Column mapping
+// ============================================================================
+
+export const IMPORT_FIELDS = ['korean', 'en', 'hanja', 'classification'] as const
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  korean: 'Korean',
+  en: 'Meaning',
+  hanja: 'Hanja',
+  classification: 'Class',
+}
+
+// Column index per field; null = not imported. Korean is required.
+export type ColumnMapping = Record<ImportField, number | null>
+
+// Header names recognised for each field (lowercase)
+const COLUMN_NAMES: Record<ImportField, string[]> = {
+  korean: ['korean', 'word', 'hangul', '한국어', '단어', 'term'],
+  en: ['english', 'meaning', 'definition', 'translation', 'en', '뜻'],
+  hanja: ['hanja', 'hanja/ref.', '한자'],
+  classification: ['classification', 'class', 'part of speech', 'pos', '품사'],
+}
+
+const isMostlyHangul = (value: string) => {
+  const chars = [...value.replace(/\s/g, '')]
+  return chars.length > 0 && chars.filter(isHangulSyllable).length / chars.length >= 0.5
+}
+
+/**
+ * Guess the mapping from header names, falling back to the content: the
+ * column that is most often Hangul is Korean, the next text column is the
+ * meaning (Anki's Front/Back in either order).
+ */
+export function guessColumnMapping(table: ImportTable): ColumnMapping {
+  const mapping: ColumnMapping = { korean: null, en: null, hanja: null, classification: null }
+  const taken = new Set<number>()
+
+  for (const field of IMPORT_FIELDS) {
+    const idx = table.columns.findIndex(
+      (column, i) => !taken.has(i) && COLUMN_NAMES[field].includes(column.trim().toLowerCase())
+    )
+    if (idx >= 0) {
+      mapping[field] = idx
+      taken.add(idx)
+    }
+  }
+
+  const sample = table.rows.slice(0, 50)
+  const hangulShare = (idx: number) =>
+    sample.filter((row) => isMostlyHangul(row[idx] ?? '')).length / Math.max(sample.length, 1)
+  const candidates = table.columns.map((_, idx) => idx).filter((idx) => !taken.has(idx))
+
+  if (mapping.korean === null) {
+    const best = [...candidates].sort((a, b) => hangulShare(b) - hangulShare(a))[0]
+    if (best !== undefined && hangulShare(best) > 0) {
+      mapping.korean = best
+      taken.add(best)
+    }
+  }
+  if (mapping.en === null) {
+    const next = candidates.find(
+      (idx) => !taken.has(idx) && hangulShare(idx) < 0.5 && sample.some((row) => row[idx]?.trim())
+    )
+    if (next !== undefined) mapping.en = next
+  }
+
+  return mapping
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+export type ImportRowStatus = 'matched' | 'custom' | 'duplicate' | 'error'
+
+export interface ImportRow {
+  row: number // 1-based data row number, as shown in the preview
+  korean: string
+  en: string
+  status: ImportRowStatus
+  word: Word | null // catalog word or new custom word; null on error
+  messages: string[] // errors, or warnings for imported rows
+}
+
+export interface ImportPreview {
+  rows: ImportRow[]
+  words: Word[] // words to save, in file order, without duplicates
+  customWords: Word[] // the subset not in the catalog
+  counts: Record<ImportRowStatus, number>
+}
+
+/**
+ * Whether `text` is a Korean word or phrase: Hangul syllables, optionally
+ * with spaces and the `~` used for suffixes (e.g. "~씨")
+ */
+export function isHangulText(text: string): boolean {
+  const chars = [...text.replace(/[\s~]/g, '')]
+  return chars.length > 0 && chars.every(isHangulSyllable)
+}
+
+const normalizeKorean = (text: string) => text.trim().replace(/\s+/g, ' ')
+
+/**
+ * Pick the catalog word for a row among words with the same spelling
+ */
+function matchWord(candidates: Word[], en: string, hanja: string): { word: Word; ambiguous: boolean } {
+  let matches = candidates
+  if (matches.length > 1 && hanja) {
+    const byHanja = matches.filter((w) => w.hanja?.includes(hanja))
+    if (byHanja.length > 0) matches = byHanja
+  }
+  if (matches.length > 1 && en) {
+    const meanings = splitMeanings(parseSenses(en))
+    const byMeaning = matches.filter((w) => meanings.some((m) => isMeaningCorrect(m, w.senses)))
+    if (byMeaning.length > 0) matches = byMeaning
+  }
+  return { word: matches[0], ambiguous: matches.length > 1 }
+}
+
+/**
+ * Build the import preview. `catalog` holds the words rows can match (the
+ * dataset plus the user's existing custom words); new custom words get ids
+ * `custom-<korean>`, suffixed with -2, -3, ... when taken.
+ */
+export function buildImportPreview(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  catalog: Iterable<Word>
+): ImportPreview {
+  const bySpelling = new Map<string, Word[]>()
+  const takenIds = new Set<string>()
+  for (const word of catalog) {
+    const key = normalizeKorean(word.korean)
+    bySpelling.set(key, [...(bySpelling.get(key) ?? []), word])
+    takenIds.add(word.id)
+  }
+
+  const rows: ImportRow[] = []
+  const words: Word[] = []
+  const customWords: Word[] = []
+  const rowByWordId = new Map<string, number>()
+  const counts: Record<ImportRowStatus, number> = { matched: 0, custom: 0, duplicate: 0, error: 0 }
+
+  const cell = (values: string[], field: ImportField) => {
+    const idx = mapping[field]
+    return idx === null ? '' : (values[idx] ?? '').trim()
+  }
+
+  table.rows.forEach((values, idx) => {
+    const korean = normalizeKorean(cell(values, 'korean'))
+    const en = cell(values, 'en')
+    const hanja = cell(values, 'hanja')
+    const classification = cell(values, 'classification')
+    const row: ImportRow = { row: idx + 1, korean, en, status: 'error', word: null, messages: [] }
+    rows.push(row)
+
+    if (mapping.korean === null) {
+      row.messages.push('No column is mapped to Korean')
+    } else if (!korean) {
+      row.messages.push('Korean field is empty')
+    } else if (!isHangulText(korean)) {
+      row.messages.push(`Korean field "${korean}" is not Hangul`)
+    }
+
+    const candidates = bySpelling.get(korean) ?? []
+    if (row.messages.length === 0 && candidates.length > 0) {
+      const { word, ambiguous } = matchWord(candidates, en, hanja)
+      row.word = word
+      row.status = 'matched'
+      if (ambiguous) {
+        row.messages.push(`${candidates.length} words are spelled ${korean}; using "${word.en}"`)
+      }
+    } else if (row.messages.length === 0 && !en) {
+      row.messages.push('Not in the word list and has no meaning to create it with')
+    } else if (row.messages.length === 0) {
+      let id = `${CUSTOM_WORD_ID_PREFIX}${korean.replace(/\s+/g, '_')}`
+      for (let n = 2; takenIds.has(id); n++) {
+        id = `${CUSTOM_WORD_ID_PREFIX}${korean.replace(/\s+/g, '_')}-${n}`
+      }
+      const word = customWord({
+        word_id: id,
+        korean,
+        en,
+        hanja: hanja || null,
+        classification: classification || null,
+      })
+      takenIds.add(id)
+      bySpelling.set(korean, [word])
+      customWords.push(word)
+      row.word = word
+      row.status = 'custom'
+    }
+
+    if (row.word) {
+      const firstRow = rowByWordId.get(row.word.id)
+      if (firstRow !== undefined) {
+        row.status = 'duplicate'
+        row.messages = [`Same word as row ${firstRow}; skipped`]
+      } else {
+        rowByWordId.set(row.word.id, row.row)
+        words.push(row.word)
+      }
+    }
+    counts[row.status]++
+  })
+
+  return { rows, words, customWords, counts }
+}
@@ -0,0 +1,90 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { parseDelimitedRecords } from '../lib/csv'
+import {
+  assignWordIds,
+  draftsFromCsv,
+  formatVocabReport,
+  validateVocab,
+  type VocabEntry,
+  type VocabIssue,
+} from '../lib/vocab'
+
+// ============================================================================
+// Vocabulary build / check
+// ============================================================================
+// Build the app dataset from the TOPIK source CSV:
+//   npm run vocab:build -- "Korean vocabulary list 6000 TOPIK final release v1.csv"
+// Options: --out <file> (default: the app dataset)
+// Ids are kept from the current output file, new words get new ids. The
+// output is only written when validation finds no errors.
+//
+// Validate existing dataset files without building:
+//   npm run vocab:check [-- data/other.json ...]
+
+const APP_DATASET = 'data/topik_vocab_with_wiktionary.json'
+
+const hasErrors = (issues: VocabIssue[]) => issues.some((issue) => issue.level === 'error')
+
+function build(args: string[]): boolean {
+  const outIndex = args.indexOf('--out')
+  const out = outIndex >= 0 ? args[outIndex + 1] : APP_DATASET
+  const [source] = args.filter((_, idx) => outIndex < 0 || (idx !== outIndex && idx !== outIndex + 1))
+  if (!source || !out) {
+    console.error('Usage: npm run vocab:build -- <source.csv> [--out <dataset.json>]')
+    return false
+  }
+
+  const { headers, records } = parseDelimitedRecords(readFileSync(source, 'utf-8'))
+  const { drafts, issues: csvIssues } = draftsFromCsv(headers, records)
+
+  const previous: VocabEntry[] = existsSync(out) ? JSON.parse(readFileSync(out, 'utf-8')) : []
+  const entries = assignWordIds(drafts, previous)
+  const issues = [...csvIssues, ...validateVocab(entries)]
+
+  console.log(formatVocabReport(source, entries.length, issues))
+  if (hasErrors(issues)) {
+    console.error(`\n${out} was not written: fix the errors above in ${source} and run again.`)
+    return false
+  }
+
+  const previousIds = new Set(previous.map((entry) => entry.id))
+  const added = entries.filter((entry) => !previousIds.has(entry.id)).length
+  const kept = new Set(entries.map((entry) => entry.id))
+  const removed = previous.filter((entry) => !kept.has(entry.id)).length
+
+  writeFileSync(out, JSON.stringify(entries, null, 2), 'utf-8')
+  console.log(`\nWrote ${out}: ${entries.length} entries (${added} new id(s), ${removed} removed)`)
+  if (removed > 0) {
+    console.log('Progress saved for removed ids will show up as no longer in the catalog.')
+  }
+  return true
+}
+
+function check(files: string[]): boolean {
+  let ok = true
+  for (const file of files.length > 0 ? files : [APP_DATASET]) {
+    const entries = JSON.parse(readFileSync(file, 'utf-8'))
+    if (!Array.isArray(entries)) {
+      console.error(`${file}: expected a JSON array of entries`)
+      ok = false
+      continue
+    }
+    const issues = validateVocab(entries)
+    console.log(formatVocabReport(file, entries.length, issues), '\n')
+    if (hasErrors(issues)) ok = false
+  }
+  return ok
+}
+
+const [command, ...args] = process.argv.slice(2)
+
+try {
+  const ok =
+    command === 'build' ? build(args)
+    : command === 'check' ? check(args)
+    : (console.error('Usage: build-vocab.ts build <source.csv> [--out <file>] | check [file ...]'), false)
+  process.exitCode = ok ? 0 : 1
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}